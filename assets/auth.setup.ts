@@ -0,0 +1,26 @@
+import { test as setup, expect } from '@playwright/test';
+
+/**
+ * Signs in once and saves the signed-in state, the tests of the other projects start from it.
+ * See https://playwright.dev/docs/auth.
+ */
+//--each role in roles
+
+setup('authenticate as {{role.name}}', async ({ page }) => {
+  const username = process.env['{{role.env}}_USERNAME'];
+  const password = process.env['{{role.env}}_PASSWORD'];
+  if (!username || !password)
+    throw new Error('Set {{role.env}}_USERNAME and {{role.env}}_PASSWORD to the credentials of the {{role.name}} role.');
+
+  // TODO: Replace with the URL of your login page.
+  await page.goto('{{loginURL}}');
+  // TODO: Replace with the selectors of your login form.
+  await page.getByLabel('Username').fill(username);
+  await page.getByLabel('Password').fill(password);
+  await page.getByRole('button', { name: 'Sign in' }).click();
+  // TODO: Wait for something that is only shown to signed-in users.
+  await expect(page.getByRole('button', { name: 'Sign out' })).toBeVisible();
+
+  await page.context().storageState({ path: '{{role.stateFile}}' });
+});
+//--end-each
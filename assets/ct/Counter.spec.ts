@@ -0,0 +1,16 @@
+import { test, expect } from '{{ctPackageName}}';
+import Counter from './Counter.{{componentExtension}}';
+
+test.use({ viewport: { width: 500, height: 500 } });
+
+test('should increment the count on click', async ({ mount }) => {
+  const component = await mount(Counter, { props: { initial: 1 } });
+  await expect(component).toContainText('Count is 1');
+  await component.click();
+  await expect(component).toContainText('Count is 2');
+});
+
+test('should look the same as before', async ({ mount }) => {
+  const component = await mount(Counter);
+  await expect(component).toHaveScreenshot();
+});
@@ -0,0 +1,10 @@
+import { useState } from 'react';
+
+type CounterProps = {
+  initial?: number;
+};
+
+export default function Counter({ initial = 0 }: CounterProps) {
+  const [count, setCount] = useState(initial);
+  return <button onClick={() => setCount(count + 1)}>Count is {count}</button>;
+}
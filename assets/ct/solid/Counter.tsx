@@ -0,0 +1,10 @@
+import { createSignal } from 'solid-js';
+
+type CounterProps = {
+  initial?: number;
+};
+
+export default function Counter(props: CounterProps) {
+  const [count, setCount] = createSignal(props.initial ?? 0);
+  return <button onClick={() => setCount(count() + 1)}>Count is {count()}</button>;
+}
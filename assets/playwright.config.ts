@@ -24,18 +24,36 @@ export default defineConfig({
   /* Shared settings for all the projects below. See https://playwright.dev/docs/api/class-testoptions. */
   use: {
     /* Base URL to use in actions like `await page.goto('')`. */
-    // baseURL: 'http://localhost:3000',
+    //--begin-web-server
+    baseURL: '{{baseURL}}',
+    //--end-web-server
 
     /* Collect trace when retrying the failed test. See https://playwright.dev/docs/trace-viewer */
     trace: 'on-first-retry',
+    //--begin-auth
+
+    /* Start signed in, the setup project saves the state. Use test.use({ storageState }) for the other roles. */
+    storageState: '{{authFile}}',
+    //--end-auth
   },
 
   /* Configure projects for major browsers */
   projects: [
+    //--begin-auth
+    {
+      name: 'setup',
+      testMatch: /.*\.setup\.[cm]?[jt]s/,
+      use: { storageState: { cookies: [], origins: [] } },
+    },
+
+    //--end-auth
     //--begin-chromium
     {
       name: 'chromium',
       use: { ...devices['Desktop Chrome'] },
+      //--begin-auth
+      dependencies: ['setup'],
+      //--end-auth
     },
     //--end-chromium
 
@@ -43,6 +61,9 @@ export default defineConfig({
     {
       name: 'firefox',
       use: { ...devices['Desktop Firefox'] },
+      //--begin-auth
+      dependencies: ['setup'],
+      //--end-auth
     },
     //--end-firefox
 
@@ -50,9 +71,33 @@ export default defineConfig({
     {
       name: 'webkit',
       use: { ...devices['Desktop Safari'] },
+      //--begin-auth
+      dependencies: ['setup'],
+      //--end-auth
     },
     //--end-webkit
 
+    //--each project in projects
+    //--if project.channel
+    {
+      name: '{{project.name}}',
+      use: { ...devices['{{project.device}}'], channel: '{{project.channel}}' },
+      //--begin-auth
+      dependencies: ['setup'],
+      //--end-auth
+    },
+
+    //--else
+    {
+      name: '{{project.name}}',
+      use: { ...devices['{{project.device}}'] },
+      //--begin-auth
+      dependencies: ['setup'],
+      //--end-auth
+    },
+
+    //--end-if
+    //--end-each
     /* Test against mobile viewports. */
     // {
     //   name: 'Mobile Chrome',
@@ -75,9 +120,11 @@ export default defineConfig({
   ],
 
   /* Run your local dev server before starting the tests */
-  // webServer: {
-  //   command: 'npm run start',
-  //   url: 'http://localhost:3000',
-  //   reuseExistingServer: !process.env.CI,
-  // },
+  //--begin-web-server
+  webServer: {
+    command: '{{webServerCommand}}',
+    url: '{{baseURL}}',
+    reuseExistingServer: !process.env.CI,
+  },
+  //--end-web-server
 });
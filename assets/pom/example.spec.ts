@@ -0,0 +1,18 @@
+import { test, expect } from './fixtures';
+
+test('has title', async ({ playwrightDevPage }) => {
+  await playwrightDevPage.goto();
+
+  // Expect a title "to contain" a substring.
+  await expect(playwrightDevPage.page).toHaveTitle(/Playwright/);
+});
+
+test('get started link', async ({ playwrightDevPage }) => {
+  await playwrightDevPage.goto();
+
+  // Click the get started link.
+  await playwrightDevPage.getStarted();
+
+  // Expects page to have a heading with the name of Installation.
+  await expect(playwrightDevPage.installationHeading).toBeVisible();
+});
@@ -0,0 +1,18 @@
+import { test as base } from '@playwright/test';
+import { PlaywrightDevPage } from './pages/playwright-dev-page';
+
+type PageObjects = {
+  playwrightDevPage: PlaywrightDevPage;
+};
+
+/**
+ * Import test and expect from here, every page object is available as a fixture.
+ * See https://playwright.dev/docs/test-fixtures.
+ */
+export const test = base.extend<PageObjects>({
+  playwrightDevPage: async ({ page }, use) => {
+    await use(new PlaywrightDevPage(page));
+  },
+});
+
+export { expect } from '@playwright/test';
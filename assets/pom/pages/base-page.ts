@@ -0,0 +1,19 @@
+import type { Page } from '@playwright/test';
+
+/**
+ * Shared by all page objects, holds the page they drive.
+ */
+export class BasePage {
+  readonly page: Page;
+  /** Where goto() navigates to, relative to the baseURL if one is configured. */
+  readonly url: string;
+
+  constructor(page: Page, url: string) {
+    this.page = page;
+    this.url = url;
+  }
+
+  async goto() {
+    await this.page.goto(this.url);
+  }
+}
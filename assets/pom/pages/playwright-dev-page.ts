@@ -0,0 +1,20 @@
+import type { Locator, Page } from '@playwright/test';
+import { BasePage } from './base-page';
+
+/**
+ * Locators and actions of https://playwright.dev, tests use them instead of selectors.
+ */
+export class PlaywrightDevPage extends BasePage {
+  readonly getStartedLink: Locator;
+  readonly installationHeading: Locator;
+
+  constructor(page: Page) {
+    super(page, 'https://playwright.dev/');
+    this.getStartedLink = page.getByRole('link', { name: 'Get started' });
+    this.installationHeading = page.getByRole('heading', { name: 'Installation' });
+  }
+
+  async getStarted() {
+    await this.getStartedLink.click();
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import colors from 'ansi-colors';
+
+import { ConfigEditor, jsString } from './configEditor';
+import { deviceRegistry, validateDevices } from './devices';
+import { createUnifiedDiff } from './utils';
+
+export const browserDevices = {
+  chromium: 'Desktop Chrome',
+  firefox: 'Desktop Firefox',
+  webkit: 'Desktop Safari',
+};
+
+const configExtensions = ['ts', 'js', 'mts', 'mjs', 'cts', 'cjs'];
+
+/**
+ * Finds the end-to-end config in rootDir, unless a config file is given.
+ */
+export function findPlaywrightConfig(rootDir: string, configFile?: string): string {
+  if (configFile) {
+    const file = path.resolve(rootDir, configFile);
+    if (!fs.existsSync(file))
+      throw new Error(`${configFile} does not exist.`);
+    return file;
+  }
+  const file = configExtensions.map(extension => path.join(rootDir, `playwright.config.${extension}`)).find(file => fs.existsSync(file));
+  if (!file)
+    throw new Error(`Could not find playwright.config.{${configExtensions.join(',')}} in ${rootDir}, run 'create-playwright' first or pass --config.`);
+  return file;
+}
+
+export type ExistingProject = {
+  language: 'JavaScript' | 'TypeScript';
+  testDir?: string;
+};
+
+/**
+ * Reads what the generator needs to know about an already set up project from its config.
+ */
+export function readExistingProject(configFile: string): ExistingProject {
+  const editor = new ConfigEditor(configFile, fs.readFileSync(configFile, 'utf-8'));
+  return {
+    language: /\.[mc]?ts$/.test(configFile) ? 'TypeScript' : 'JavaScript',
+    testDir: editor.stringOption('testDir')?.replace(/^\.\//, '').replace(/\/$/, ''),
+  };
+}
+
+export type ConfigChange = (editor: ConfigEditor) => string[];
+
+export const addBrowsers = (browsers: (keyof typeof browserDevices)[]): ConfigChange => editor => {
+  editor.ensureImport('devices');
+  return browsers.map(browser => editor.addProject(browser, `{ ...devices[${jsString(browserDevices[browser])}] }`) ? `added the '${browser}' project` : `kept the existing '${browser}' project`);
+};
+
+export const addDevices = (rootDir: string, deviceNames: string[]): ConfigChange => editor => {
+  validateDevices(deviceNames, deviceRegistry(rootDir));
+  editor.ensureImport('devices');
+  return deviceNames.map(name => editor.addProject(name, `{ ...devices[${jsString(name)}] }`) ? `added the '${name}' project` : `kept the existing '${name}' project`);
+};
+
+export const addWebServer = (command: string, url: string): ConfigChange => editor => [
+  editor.addOption('webServer', `{\n  command: ${jsString(command)},\n  url: ${jsString(url)},\n  reuseExistingServer: !process.env.CI,\n}`) ? `added a webServer that runs '${command}'` : 'kept the existing webServer',
+  editor.addUseOption('baseURL', jsString(url)) ? `set use.baseURL to '${url}'` : 'kept the existing use.baseURL',
+];
+
+/**
+ * Applies the change to the config and prints a summary, or only the diff in dry-run mode.
+ */
+export function editPlaywrightConfig(configFile: string, change: ConfigChange, dryRun: boolean) {
+  const relativePath = path.relative(process.cwd(), configFile);
+  const source = fs.readFileSync(configFile, 'utf-8');
+  const editor = new ConfigEditor(relativePath, source);
+  const summary = change(editor);
+  if (dryRun) {
+    console.log(colors.yellow('Dry run, nothing will be written.'));
+    if (editor.source !== source)
+      console.log(createUnifiedDiff(source, editor.source, `a/${relativePath}`, `b/${relativePath}`));
+  } else if (editor.source !== source) {
+    fs.writeFileSync(configFile, editor.source, 'utf-8');
+  }
+  console.log(colors.bold(relativePath + ':'));
+  for (const line of summary)
+    console.log(line.startsWith('kept') ? colors.gray(`  - ${line}`) : colors.green(`  ✔ ${line}`));
+}
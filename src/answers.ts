@@ -0,0 +1,137 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import YAML from 'yaml';
+
+import { ciProviders, ghaTriggers } from './ci';
+import { ctFrameworks } from './ctFramework';
+import { browserChannels, browserNames } from './devices';
+import type { CliOptions, PromptOptions } from './generator';
+
+export const answersConfigFile = 'create-playwright.config.json';
+
+type Validator = (value: unknown) => string | undefined;
+
+const string: Validator = value => typeof value === 'string' && value ? undefined : 'a non-empty string';
+const boolean: Validator = value => typeof value === 'boolean' ? undefined : 'a boolean';
+const positiveInteger: Validator = value => Number.isInteger(value) && (value as number) >= 1 ? undefined : 'a positive integer';
+const oneOf = (choices: readonly string[]): Validator => value => typeof value === 'string' && choices.includes(value) ? undefined : `one of ${choices.map(choice => `"${choice}"`).join(', ')}`;
+const record: Validator = value => typeof value === 'object' && value && !Array.isArray(value) && Object.values(value).every(item => ['string', 'boolean'].includes(typeof item)) ? undefined : 'an object with string or boolean values';
+const webServer: Validator = value => {
+  const { command, url, ...rest } = (typeof value === 'object' && value && !Array.isArray(value) ? value : {}) as Record<string, unknown>;
+  return typeof command === 'string' && typeof url === 'string' && !Object.keys(rest).length ? undefined : 'an object with a "command" and a "url"';
+};
+const strings: Validator = value => Array.isArray(value) && value.every(item => typeof item === 'string' && item) ? undefined : 'a list of non-empty strings';
+const listOf = (choices: readonly string[]): Validator => value => Array.isArray(value) && value.every(item => choices.includes(item)) ? undefined : `a list of ${choices.map(choice => `"${choice}"`).join(', ')}`;
+
+// The browsers are answered by the "browser" option.
+const promptSchema: Record<Exclude<keyof PromptOptions, 'installGitHubActions' | 'browsers'>, Validator> = {
+  language: oneOf(['TypeScript', 'JavaScript']),
+  framework: oneOf(Object.keys(ctFrameworks)),
+  e2e: boolean,
+  ctTestDir: string,
+  testDir: string,
+  ciProvider: oneOf([...Object.keys(ciProviders), 'none']),
+  ghaTriggers: listOf(ghaTriggers),
+  installPlaywrightBrowsers: boolean,
+  installPlaywrightDependencies: boolean,
+  devices: strings,
+  channels: listOf(Object.keys(browserChannels)),
+  templateVariables: record,
+  webServer,
+};
+
+// Options that have a counterpart in promptSchema, or only make sense on the command line, are left out.
+const cliSchema: Partial<Record<keyof CliOptions, Validator>> = {
+  browser: listOf(browserNames),
+  noExamples: boolean,
+  onlyShell: boolean,
+  noWebServer: boolean,
+  next: boolean,
+  beta: boolean,
+  shards: positiveInteger,
+  docker: boolean,
+  auth: strings,
+  structure: oneOf(['flat', 'pom']),
+  onConflict: oneOf(['prompt', 'skip', 'overwrite', 'backup']),
+  keepOnFailure: boolean,
+  packageManager: string,
+  workspacePackage: string,
+  template: string,
+  module: oneOf(['esm', 'cjs']),
+};
+
+export type Answers = {
+  file: string;
+  promptOptions: Partial<PromptOptions>;
+  cliOptions: CliOptions;
+};
+
+// A stray config above the repository must not answer for it, outside of a git repository only rootDir is searched.
+function findAnswersConfig(rootDir: string): string | undefined {
+  const candidates: string[] = [];
+  for (let dir = rootDir; ; dir = path.dirname(dir)) {
+    candidates.push(path.join(dir, answersConfigFile));
+    if (fs.existsSync(path.join(dir, '.git')))
+      return candidates.find(file => fs.existsSync(file));
+    if (path.dirname(dir) === dir)
+      return candidates.slice(0, 1).find(file => fs.existsSync(file));
+  }
+}
+
+/**
+ * Reads the answers from the given file, or from the closest create-playwright.config.json above rootDir within its git repository.
+ */
+export function loadAnswers(rootDir: string, answersFile?: string): Answers | undefined {
+  const file = answersFile ? path.resolve(answersFile) : findAnswersConfig(rootDir);
+  if (!file)
+    return;
+  const content = fs.readFileSync(file, 'utf-8');
+  let data: unknown;
+  try {
+    data = /\.ya?ml$/i.test(file) ? YAML.parse(content) : JSON.parse(content);
+  } catch (e) {
+    throw new Error(`Could not parse ${file}: ${e.message}`);
+  }
+  if (typeof data !== 'object' || !data || Array.isArray(data))
+    throw new Error(`Invalid answers in ${file}: expected an object`);
+
+  const errors: string[] = [];
+  const promptOptions: Record<string, unknown> = {};
+  const cliOptions: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    const validator = promptSchema[key as keyof typeof promptSchema] || cliSchema[key as keyof typeof cliSchema];
+    if (!validator) {
+      errors.push(`unknown key "${key}", expected one of ${[...Object.keys(promptSchema), ...Object.keys(cliSchema)].join(', ')}`);
+      continue;
+    }
+    const expected = validator(value);
+    if (expected)
+      errors.push(`"${key}" must be ${expected}, got ${JSON.stringify(value)}`);
+    else if (key in promptSchema)
+      promptOptions[key] = value;
+    else
+      cliOptions[key] = value;
+  }
+  if (errors.length)
+    throw new Error(`Invalid answers in ${file}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  if (promptOptions.framework)
+    cliOptions.ct = true;
+  return { file, promptOptions, cliOptions };
+}
@@ -0,0 +1,93 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+export type CIProvider = 'github' | 'gitlab' | 'azure' | 'circleci' | 'jenkins' | 'bitbucket';
+
+export const ciProviders: Record<CIProvider, { name: string, asset: string, file: string }> = {
+  github: { name: 'GitHub Actions', asset: 'github-actions.yml', file: '.github/workflows/playwright.yml' },
+  gitlab: { name: 'GitLab CI', asset: 'gitlab-ci.yml', file: '.gitlab-ci.yml' },
+  azure: { name: 'Azure Pipelines', asset: 'azure-pipelines.yml', file: 'azure-pipelines.yml' },
+  circleci: { name: 'CircleCI', asset: 'circleci.yml', file: '.circleci/config.yml' },
+  jenkins: { name: 'Jenkins', asset: 'Jenkinsfile', file: 'Jenkinsfile' },
+  bitbucket: { name: 'Bitbucket Pipelines', asset: 'bitbucket-pipelines.yml', file: 'bitbucket-pipelines.yml' },
+};
+
+export const ghaTriggers = ['schedule', 'workflow_dispatch'] as const;
+export type GHATrigger = typeof ghaTriggers[number];
+
+function findGitDir(rootDir: string): string | undefined {
+  for (let dir = rootDir; ; dir = path.dirname(dir)) {
+    const gitPath = path.join(dir, '.git');
+    if (fs.existsSync(gitPath)) {
+      // Worktrees and submodules have a .git file pointing to the actual git directory.
+      if (fs.statSync(gitPath).isDirectory())
+        return gitPath;
+      const gitDir = fs.readFileSync(gitPath, 'utf-8').match(/^gitdir:\s*(.+)$/m)?.[1];
+      return gitDir ? path.resolve(dir, gitDir.trim()) : undefined;
+    }
+    if (path.dirname(dir) === dir)
+      return;
+  }
+}
+
+function readSymbolicRef(refPath: string, prefix: string): string | undefined {
+  try {
+    const ref = fs.readFileSync(refPath, 'utf-8').match(/^ref:\s*(\S+)/)?.[1];
+    return ref?.startsWith(prefix) ? ref.slice(prefix.length) : undefined;
+  } catch (e) {
+    return undefined;
+  }
+}
+
+/**
+ * The default branch of the remote if it is known, otherwise the checked out branch.
+ */
+export function detectDefaultBranch(rootDir: string): string | undefined {
+  const gitDir = findGitDir(rootDir);
+  if (!gitDir)
+    return;
+  // Worktrees keep their own HEAD, but share the refs of the main git directory.
+  const commonDir = fs.existsSync(path.join(gitDir, 'commondir')) ? path.resolve(gitDir, fs.readFileSync(path.join(gitDir, 'commondir'), 'utf-8').trim()) : gitDir;
+  return readSymbolicRef(path.join(commonDir, 'refs', 'remotes', 'origin', 'HEAD'), 'refs/remotes/origin/')
+    || readSymbolicRef(path.join(gitDir, 'HEAD'), 'refs/heads/');
+}
+
+/**
+ * The Node.js version from .nvmrc, .node-version or the "engines" field in package.json, looked up in the given directories.
+ */
+export function detectNodeVersion(dirs: string[]): string | undefined {
+  for (const dir of dirs) {
+    for (const file of ['.nvmrc', '.node-version']) {
+      try {
+        const version = fs.readFileSync(path.join(dir, file), 'utf-8').split('\n').map(line => line.replace(/#.*/, '').trim()).find(Boolean);
+        if (version)
+          return version;
+      } catch (e) {
+      }
+    }
+  }
+  for (const dir of dirs) {
+    try {
+      const version = JSON.parse(fs.readFileSync(path.join(dir, 'package.json'), 'utf-8')).engines?.node;
+      if (typeof version === 'string' && version.trim())
+        return version.trim();
+    } catch (e) {
+    }
+  }
+}
@@ -14,48 +14,222 @@
  * limitations under the License.
  */
 
+import fs from 'fs';
 import path from 'path';
-import { Command } from 'commander';
+import { Argument, Command, InvalidArgumentError, Option } from 'commander';
+import { addBrowsers, addDevices, addWebServer, browserDevices, editPlaywrightConfig, findPlaywrightConfig, readExistingProject } from './add';
+import { loadAnswers } from './answers';
+import { ciProviders, ghaTriggers } from './ci';
+import { ctFrameworks } from './ctFramework';
+import { detectDevServer } from './devServer';
+import { type BrowserName, browserChannels, browserNames } from './devices';
 import { CliOptions, Generator } from './generator';
+import { determinePackageManager } from './packageManager';
 
 const program = new Command();
 
+function parseRoles(value: string): string[] {
+  const roles = value.split(',').map(role => role.trim());
+  const invalid = roles.find(role => !/^[\w-]+$/.test(role));
+  if (invalid !== undefined)
+    throw new InvalidArgumentError(`'${invalid}' is not a valid role, use letters, digits, '-' and '_' only.`);
+  return roles;
+}
+
+function parseBrowser(value: string, previous: BrowserName[] | undefined): BrowserName[] {
+  if (value in browserChannels)
+    throw new InvalidArgumentError(`'${value}' is a branded browser, pass it via --channel ${value} instead.`);
+  if (value === 'chromium-headless-shell')
+    throw new InvalidArgumentError(`Pass --browser chromium --only-shell to install the headless shell of Chromium.`);
+  if (!browserNames.includes(value as BrowserName))
+    throw new InvalidArgumentError(`Expected one of ${browserNames.join(', ')}.`);
+  return [...previous || [], value as BrowserName];
+}
+
+function dryRunMode(options: { dryRun?: 'text' | 'json' }): CliOptions['dryRun'] {
+  return options.dryRun === 'json' ? 'json' : !!options.dryRun;
+}
+
+// Options with an optional value only take it attached with '=', the rootDir following a bare flag is not its value.
+const attachedValueOptions: Record<string, string> = {
+  '--dry-run': 'text',
+  '--auth': 'user',
+};
+
+function attachOptionValues(argv: string[]): string[] {
+  const end = argv.indexOf('--');
+  return argv.map((arg, index) => {
+    const preset = attachedValueOptions[arg];
+    if (preset === undefined || (end !== -1 && index > end))
+      return arg;
+    const next = argv[index + 1];
+    if (arg === '--auth' && next?.includes(','))
+      program.error(`error: pass the roles attached to the option, as in --auth=${next}`);
+    return `${arg}=${preset}`;
+  });
+}
+
+function parseShards(value: string): number {
+  const shards = Number(value);
+  if (!Number.isInteger(shards) || shards < 1)
+    throw new InvalidArgumentError('Expected a positive integer.');
+  return shards;
+}
+
 program
   .name('create-playwright')
   .description('Getting started with writing end-to-end tests with Playwright.')
   .argument('[rootDir]', 'Target directory for the Playwright project', '.')
-  .option('--browser <browser...>', `browsers to use in default config (default: 'chromium,firefox,webkit')`)
+  .option('--browser <browser...>', `browsers to use in default config (default: 'chromium,firefox,webkit')`, parseBrowser)
+  .option('--device <device...>', 'add a project that emulates each of the devices, e.g. "Pixel 5"')
+  .addOption(new Option('--channel <channel...>', 'add a project for each of the branded browsers').choices(Object.keys(browserChannels)))
   .option('--no-browsers', 'do not download browsers (can be done manually via \'npx playwright install\')')
+  .option('--only-shell', 'install chromium-headless-shell instead of the full Chromium, for headless runs like on CI')
   .option('--no-examples', 'do not create example test files')
+  .option('--no-web-server', 'do not start the detected dev server before the tests')
   .option('--install-deps', 'install dependencies')
   .option('--next', 'install @next version of Playwright')
   .option('--beta', 'install @beta version of Playwright')
   .option('--ct', 'install Playwright Component testing')
+  .addOption(new Option('--framework <framework>', 'framework for component testing, implies --ct (default: detected from package.json)').choices(Object.keys(ctFrameworks)))
+  .option('--e2e', 'set up end-to-end tests next to the component tests, together with --ct')
   .option('--quiet', 'do not ask for interactive input prompts')
   .option('--gha', 'install GitHub Actions')
+  .addOption(new Option('--ci <provider>', 'add a CI pipeline').choices(Object.keys(ciProviders)))
+  .option('--shards <n>', 'split the tests into <n> parallel GitHub Actions jobs and merge their reports', parseShards)
+  .addOption(new Option('--gha-trigger <trigger...>', 'additional GitHub Actions workflow triggers').choices(ghaTriggers))
+  .addOption(new Option('--auth [roles]', 'sign in once in a setup project and reuse the state, --auth=admin,user signs in as several roles (default: "user")').argParser(parseRoles))
+  .addOption(new Option('--structure <structure>', 'layout of the tests, "pom" adds page objects and fixtures (default: "flat")').choices(['flat', 'pom']))
+  .option('--docker', 'run the tests in the Playwright Docker image, pinned to the installed version')
+  .addOption(new Option('--module <type>', 'module system of the generated files (default: "esm" if package.json has "type": "module")').choices(['esm', 'cjs']))
   .option('--lang <language>', 'language to use (js, TypeScript)')
   .option('--test-dir <directory>', 'directory for test files (default: "tests" if it does not exist, otherwise "e2e")')
+  .addOption(new Option('--on-conflict <strategy>', 'what to do with files that already exist').choices(['prompt', 'skip', 'overwrite', 'backup']))
+  .option('--package-manager <name>', 'package manager to use (npm, yarn, pnpm or bun), optionally with a version like pnpm@9')
+  .option('--workspace-package <path>', 'create the Playwright project as a separate package of the workspace, e.g. packages/e2e')
+  .option('--keep-on-failure', 'do not roll back the changes when initialization fails')
+  .option('--template <template>', 'template pack to take the files from: a local path, an npm package or a git URL')
+  .option('--answers <file>', 'read the answers from a JSON or YAML file instead of prompting (default: create-playwright.config.json)')
+  .addOption(new Option('--dry-run [format]', 'print the files and commands without writing or executing anything, --dry-run=json prints them as JSON').choices(['text', 'json']))
   .action(async (rootDir, options) => {
 
     const cliOptions: CliOptions = {
       browser: options.browser,
+      device: options.device,
+      channel: options.channel,
       noBrowsers: !options.browsers,
+      onlyShell: options.onlyShell,
       noExamples: !options.examples,
+      noWebServer: !options.webServer,
       installDeps: options.installDeps,
       next: options.next,
       beta: options.beta,
-      ct: options.ct,
+      ct: options.ct || !!options.framework,
+      framework: options.framework,
+      e2e: options.e2e,
+      auth: options.auth,
+      structure: options.structure,
       quiet: options.quiet,
       gha: options.gha,
+      ci: options.ci,
+      shards: options.shards,
+      ghaTrigger: options.ghaTrigger,
+      docker: options.docker,
       lang: options.lang,
       testDir: options.testDir,
+      dryRun: dryRunMode(options),
+      onConflict: options.onConflict,
+      keepOnFailure: options.keepOnFailure,
+      packageManager: options.packageManager,
+      workspacePackage: options.workspacePackage,
+      template: options.template,
+      module: options.module,
     };
     const resolvedRootDir = path.resolve(process.cwd(), rootDir || '.');
+    const answers = loadAnswers(resolvedRootDir, options.answers);
+    if (answers) {
+      // Flags given on the command line take precedence over the answers file.
+      const fromFile = Object.entries(answers.cliOptions).filter(([key]) => !cliOptions[key as keyof CliOptions]);
+      Object.assign(cliOptions, Object.fromEntries(fromFile), { answers: answers.promptOptions, quiet: true });
+    }
     const generator = new Generator(resolvedRootDir, cliOptions);
     await generator.run();
   });
 
-program.parseAsync().catch(error => {
+const add = program
+  .command('add')
+  .description('Add to an existing Playwright project, keeping the changes made to its config.')
+  .option('--config <file>', 'config to edit (default: playwright.config.{ts,js,mts,mjs,cts,cjs} in the current directory)')
+  .option('--package-manager <name>', 'package manager to use (npm, yarn, pnpm or bun)');
+
+function addOptions(command: Command): { configFile: string, dryRun: CliOptions['dryRun'], packageManager?: string } {
+  const options = command.optsWithGlobals();
+  return { configFile: findPlaywrightConfig(process.cwd(), options.config), dryRun: dryRunMode(options), packageManager: options.packageManager };
+}
+
+add
+  .command('browser')
+  .description('add a project for each of the browsers')
+  .addArgument(new Argument('<browser...>').choices(Object.keys(browserDevices)))
+  .action((browsers, _, command) => {
+    const { configFile, dryRun } = addOptions(command);
+    editPlaywrightConfig(configFile, addBrowsers(browsers), !!dryRun);
+  });
+
+add
+  .command('device')
+  .description('add a project that emulates each of the devices, e.g. "Pixel 5"')
+  .argument('<device...>')
+  .action((devices, _, command) => {
+    const { configFile, dryRun } = addOptions(command);
+    editPlaywrightConfig(configFile, addDevices(process.cwd(), devices), !!dryRun);
+  });
+
+add
+  .command('web-server')
+  .description('start the dev server before the tests and use its URL as baseURL')
+  .argument('[command]', 'command that starts the server (default: detected from package.json)')
+  .option('--url <url>', 'URL the server is reachable at (default: detected from package.json)')
+  .action((serverCommand, options, command) => {
+    const { configFile, dryRun, packageManager } = addOptions(command);
+    const rootDir = path.dirname(configFile);
+    const devServer = detectDevServer(rootDir, determinePackageManager(rootDir, packageManager));
+    if (!serverCommand && !devServer)
+      throw new Error('Could not detect the dev server from package.json, pass the command that starts it.');
+    editPlaywrightConfig(configFile, addWebServer(serverCommand || devServer!.command, options.url || devServer?.url || 'http://localhost:3000'), !!dryRun);
+  });
+
+add
+  .command('gha')
+  .description('add a GitHub Actions workflow')
+  .action(async (_, command) => {
+    const { configFile, dryRun, packageManager } = addOptions(command);
+    const { language, testDir } = readExistingProject(configFile);
+    const generator = new Generator(path.dirname(configFile), {
+      add: 'gha', quiet: true, gha: true, noExamples: true, noBrowsers: true, onConflict: 'skip',
+      lang: language === 'JavaScript' ? 'js' : 'ts', testDir, dryRun, packageManager,
+    });
+    await generator.run();
+  });
+
+add
+  .command('ct')
+  .description('add Playwright Component Testing next to the end-to-end tests')
+  .addArgument(new Argument('[framework]', 'framework to use (default: detected from package.json)').choices(Object.keys(ctFrameworks)))
+  .action(async (framework, _, command) => {
+    const options = command.optsWithGlobals();
+    const rootDir = options.config ? path.dirname(path.resolve(options.config)) : process.cwd();
+    // Without an end-to-end config, TypeScript is the default like for new projects.
+    const configFile = options.config || fs.readdirSync(rootDir).some(file => file.startsWith('playwright.config.')) ? findPlaywrightConfig(rootDir, options.config) : undefined;
+    const generator = new Generator(rootDir, {
+      add: 'ct', quiet: true, ct: true, noExamples: true, noBrowsers: true, onConflict: 'skip',
+      lang: configFile && readExistingProject(configFile).language === 'JavaScript' ? 'js' : 'ts',
+      framework, dryRun: dryRunMode(options), packageManager: options.packageManager,
+    });
+    await generator.run();
+  });
+
+program.parseAsync(attachOptionValues(process.argv)).catch(error => {
   console.error(error);
   process.exit(1);
 });
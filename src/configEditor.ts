@@ -0,0 +1,250 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { parse } from '@babel/parser';
+import type { ArrayExpression, Expression, Node, ObjectExpression, ObjectProperty, Program } from '@babel/types';
+
+/**
+ * Escapes a value for a single-quoted string literal.
+ */
+export function escapeJSString(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/'/g, `\\'`);
+}
+
+/**
+ * Quotes a string the way the generated configs do.
+ */
+export function jsString(value: string): string {
+  return `'${escapeJSString(value)}'`;
+}
+
+function isPlaywrightModule(specifier: string): boolean {
+  return specifier === '@playwright/test' || specifier.startsWith('@playwright/experimental-ct-');
+}
+
+/**
+ * Edits a Playwright config in place: every change is an insertion into the original source,
+ * so that formatting, comments and everything the user changed are kept as they are.
+ */
+export class ConfigEditor {
+  private _source: string;
+  private _program!: Program;
+  private _config!: ObjectExpression;
+
+  constructor(readonly file: string, source: string) {
+    this._source = source;
+    this._parse();
+  }
+
+  get source(): string {
+    return this._source;
+  }
+
+  private _parse() {
+    try {
+      this._program = parse(this._source, { sourceType: 'unambiguous', plugins: ['typescript'] }).program;
+    } catch (error) {
+      throw new Error(`Could not parse ${this.file}: ${error.message}`);
+    }
+    const config = this._findConfig();
+    if (!config)
+      throw new Error(`Could not find the configuration in ${this.file}, expected 'export default defineConfig({ ... })' or 'module.exports = defineConfig({ ... })'.`);
+    this._config = config;
+  }
+
+  private _findConfig(): ObjectExpression | undefined {
+    for (const statement of this._program.body) {
+      if (statement.type === 'ExportDefaultDeclaration')
+        return this._resolveObject(statement.declaration);
+      if (statement.type === 'ExpressionStatement' && statement.expression.type === 'AssignmentExpression') {
+        const { left, right } = statement.expression;
+        if (left.type === 'MemberExpression' && left.object.type === 'Identifier' && left.object.name === 'module' && left.property.type === 'Identifier' && left.property.name === 'exports')
+          return this._resolveObject(right);
+      }
+    }
+  }
+
+  private _resolveObject(node: Node | null | undefined): ObjectExpression | undefined {
+    if (!node)
+      return;
+    switch (node.type) {
+      case 'ObjectExpression':
+        return node;
+      case 'TSAsExpression':
+      case 'TSSatisfiesExpression':
+      case 'ParenthesizedExpression':
+        return this._resolveObject(node.expression);
+      case 'CallExpression':
+        // defineConfig(base, overrides) merges its arguments, edit the last one.
+        return [...node.arguments].reverse().map(argument => this._resolveObject(argument)).find(Boolean);
+      case 'Identifier':
+        for (const statement of this._program.body) {
+          const declaration = statement.type === 'ExportNamedDeclaration' ? statement.declaration : statement;
+          if (declaration?.type !== 'VariableDeclaration')
+            continue;
+          const declarator = declaration.declarations.find(d => d.id.type === 'Identifier' && d.id.name === node.name);
+          if (declarator)
+            return this._resolveObject(declarator.init);
+        }
+    }
+  }
+
+  private _property(object: ObjectExpression, name: string): ObjectProperty | undefined {
+    return object.properties.find((property): property is ObjectProperty => {
+      if (property.type !== 'ObjectProperty' || property.computed)
+        return false;
+      return (property.key.type === 'Identifier' && property.key.name === name) || (property.key.type === 'StringLiteral' && property.key.value === name);
+    });
+  }
+
+  hasOption(name: string): boolean {
+    return !!this._property(this._config, name);
+  }
+
+  /**
+   * Value of a top-level option, if it is a string literal.
+   */
+  stringOption(name: string): string | undefined {
+    const value = this._property(this._config, name)?.value;
+    return value?.type === 'StringLiteral' ? value.value : undefined;
+  }
+
+  projectNames(): string[] {
+    const projects = this._property(this._config, 'projects')?.value;
+    if (projects?.type !== 'ArrayExpression')
+      return [];
+    return projects.elements.map(element => element?.type === 'ObjectExpression' ? this._property(element, 'name')?.value : undefined)
+        .filter((name): name is Extract<Expression, { type: 'StringLiteral' }> => name?.type === 'StringLiteral')
+        .map(name => name.value);
+  }
+
+  /**
+   * Adds a project unless one with the same name exists. Returns whether the config changed.
+   */
+  addProject(name: string, use: string): boolean {
+    if (this.projectNames().includes(name))
+      return false;
+    const project = `{\n  name: ${jsString(name)},\n  use: ${use},\n}`;
+    const projects = this._property(this._config, 'projects');
+    if (!projects)
+      this._append(this._config, `projects: [\n${project.replace(/^/gm, '  ')},\n]`);
+    else if (projects.value.type === 'ArrayExpression')
+      this._append(projects.value, project);
+    else
+      throw new Error(`'projects' in ${this.file} is not an array, add the '${name}' project manually.`);
+    return true;
+  }
+
+  /**
+   * Sets an option in `use` unless it is set already. Returns whether the config changed.
+   */
+  addUseOption(name: string, value: string): boolean {
+    const use = this._property(this._config, 'use');
+    if (!use) {
+      this._append(this._config, `use: {\n  ${name}: ${value},\n}`);
+      return true;
+    }
+    if (use.value.type !== 'ObjectExpression')
+      throw new Error(`'use' in ${this.file} is not an object, set '${name}' manually.`);
+    if (this._property(use.value, name))
+      return false;
+    this._append(use.value, `${name}: ${value}`);
+    return true;
+  }
+
+  /**
+   * Sets a top-level option unless it is set already. Returns whether the config changed.
+   */
+  addOption(name: string, value: string): boolean {
+    if (this.hasOption(name))
+      return false;
+    this._append(this._config, `${name}: ${value}`);
+    return true;
+  }
+
+  /**
+   * Makes sure that the given export of @playwright/test (or the component testing package) is imported.
+   */
+  ensureImport(name: string) {
+    for (const statement of this._program.body) {
+      if (statement.type === 'ImportDeclaration' && isPlaywrightModule(statement.source.value)) {
+        const specifiers = statement.specifiers.filter(specifier => specifier.type === 'ImportSpecifier');
+        if (specifiers.some(specifier => specifier.local.name === name))
+          return;
+        const last = specifiers[specifiers.length - 1];
+        if (last)
+          return this._insert(last.end!, `, ${name}`);
+      }
+      if (statement.type === 'VariableDeclaration') {
+        for (const { id, init } of statement.declarations) {
+          if (id.type !== 'ObjectPattern' || init?.type !== 'CallExpression' || init.callee.type !== 'Identifier' || init.callee.name !== 'require')
+            continue;
+          const [specifier] = init.arguments;
+          if (specifier?.type !== 'StringLiteral' || !isPlaywrightModule(specifier.value))
+            continue;
+          if (id.properties.some(property => property.type === 'ObjectProperty' && property.value.type === 'Identifier' && property.value.name === name))
+            return;
+          const last = id.properties[id.properties.length - 1];
+          if (last)
+            return this._insert(last.end!, `, ${name}`);
+        }
+      }
+    }
+    throw new Error(`Could not find the import of @playwright/test in ${this.file}, import '${name}' from it and try again.`);
+  }
+
+  private _lineStart(offset: number): number {
+    return this._source.lastIndexOf('\n', offset - 1) + 1;
+  }
+
+  private _indentation(offset: number): string {
+    return this._source.slice(this._lineStart(offset)).match(/^[ \t]*/)![0];
+  }
+
+  /**
+   * Appends a property or an element after the last existing one, indented like its siblings.
+   */
+  private _append(container: ObjectExpression | ArrayExpression, code: string) {
+    const items: Node[] = container.type === 'ObjectExpression' ? container.properties : container.elements.filter((element): element is Exclude<typeof element, null> => !!element);
+    const last = items[items.length - 1];
+    const outer = this._indentation(container.start!);
+    if (!last) {
+      const inner = this._source.slice(container.start! + 1, container.end! - 1);
+      const content = `\n${code.replace(/^/gm, outer + '  ')},\n${outer}`;
+      if (inner.trim())
+        this._insert(container.end! - 1, content.slice(1));
+      else
+        this._replace(container.start! + 1, container.end! - 1, content);
+      return;
+    }
+    // Single-line containers like `use: { ...devices['Pixel 5'] }` stay on a single line.
+    if (this._lineStart(last.start!) === this._lineStart(container.start!)) {
+      this._insert(last.end!, `, ${code.replace(/\n\s*/g, ' ').replace(/, ([}\]])/g, ' $1')}`);
+      return;
+    }
+    const indentation = this._indentation(last.start!);
+    this._insert(last.end!, `,\n${code.replace(/^/gm, indentation)}`);
+  }
+
+  private _insert(offset: number, text: string) {
+    this._replace(offset, offset, text);
+  }
+
+  private _replace(start: number, end: number, text: string) {
+    this._source = this._source.slice(0, start) + text + this._source.slice(end);
+    this._parse();
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+/** Component testing adapters, each one is published as @playwright/experimental-ct-<name>. */
+export const ctFrameworks = {
+  react: 'React 18+',
+  react17: 'React 17',
+  vue: 'Vue 3',
+  vue2: 'Vue 2',
+  svelte: 'Svelte',
+  solid: 'Solid',
+};
+
+export type CTFramework = keyof typeof ctFrameworks;
+
+type Adapter = {
+  framework: CTFramework;
+  dependency: string;
+  minMajor: number;
+  maxMajor?: number;
+};
+
+const adapters: Adapter[] = [
+  { framework: 'react', dependency: 'react', minMajor: 18 },
+  { framework: 'react17', dependency: 'react', minMajor: 17, maxMajor: 17 },
+  { framework: 'vue', dependency: 'vue', minMajor: 3 },
+  { framework: 'vue2', dependency: 'vue', minMajor: 2, maxMajor: 2 },
+  { framework: 'svelte', dependency: 'svelte', minMajor: 3 },
+  { framework: 'solid', dependency: 'solid-js', minMajor: 1 },
+];
+
+export type CTFrameworkDetection = {
+  dependency: string;
+  /** The installed version, or the range from package.json if it is not installed yet. */
+  version: string;
+  installed: boolean;
+  /** Undefined if no adapter supports this version. */
+  framework?: CTFramework;
+};
+
+function installedVersion(projectDir: string, dependency: string): string | undefined {
+  for (let dir = projectDir; ; dir = path.dirname(dir)) {
+    try {
+      return JSON.parse(fs.readFileSync(path.join(dir, 'node_modules', dependency, 'package.json'), 'utf-8')).version;
+    } catch (e) {
+      // Not installed here, node resolves from the parent directories as well.
+    }
+    if (path.dirname(dir) === dir)
+      return;
+  }
+}
+
+/**
+ * Finds the UI framework of the project and the component testing adapter for its major version.
+ */
+export function detectCTFramework(projectDir: string): CTFrameworkDetection | undefined {
+  let packageJSON;
+  try {
+    packageJSON = JSON.parse(fs.readFileSync(path.join(projectDir, 'package.json'), 'utf-8'));
+  } catch (e) {
+    return;
+  }
+  const ranges: Record<string, string> = { ...packageJSON.peerDependencies, ...packageJSON.devDependencies, ...packageJSON.dependencies };
+  const dependency = [...new Set(adapters.map(adapter => adapter.dependency))].find(dependency => dependency in ranges);
+  if (!dependency)
+    return;
+  const installed = installedVersion(projectDir, dependency);
+  const version = installed || ranges[dependency]!;
+  const major = version.match(/\d+/)?.[0];
+  // Ranges like 'latest' or '*' say nothing about the version, take the adapter for the newest one.
+  const framework = adapters.find(adapter => adapter.dependency === dependency && (!major || (Number(major) >= adapter.minMajor && Number(major) <= (adapter.maxMajor ?? Infinity))))?.framework;
+  return { dependency, version, installed: !!installed, framework };
+}
+
+/**
+ * Explains why the detected framework is not used, if it is not.
+ */
+export function ctFrameworkWarning(detection: CTFrameworkDetection | undefined, chosen: CTFramework | undefined): string | undefined {
+  if (!detection)
+    return;
+  if (!detection.framework) {
+    const supported = adapters.filter(adapter => adapter.dependency === detection.dependency).map(adapter => ctFrameworks[adapter.framework]).join(', ');
+    return `Found ${detection.dependency}@${detection.version}, but component testing only supports ${supported}.`;
+  }
+  if (chosen && chosen !== detection.framework)
+    return `Using the ${ctFrameworks[chosen]} adapter, but found ${detection.dependency}@${detection.version} which needs the ${ctFrameworks[detection.framework]} one.`;
+}
@@ -0,0 +1,83 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import type { PackageManager } from './packageManager';
+
+export type DevServer = {
+  /** Name of the detected app framework. */
+  framework: string;
+  command: string;
+  url: string;
+};
+
+type AppFramework = {
+  name: string;
+  dependency: string;
+  /** Scripts that start the dev server, in order of preference. */
+  scripts: string[];
+  /** Fallback when none of the scripts exist. */
+  bin: string;
+  args: string;
+  port: number;
+};
+
+// More specific frameworks first, most of them depend on Vite.
+const appFrameworks: AppFramework[] = [
+  { name: 'Next.js', dependency: 'next', scripts: ['dev', 'start'], bin: 'next', args: 'dev', port: 3000 },
+  { name: 'Nuxt', dependency: 'nuxt', scripts: ['dev', 'start'], bin: 'nuxt', args: 'dev', port: 3000 },
+  { name: 'Remix', dependency: '@remix-run/dev', scripts: ['dev', 'start'], bin: 'remix', args: 'vite:dev', port: 5173 },
+  { name: 'Astro', dependency: 'astro', scripts: ['dev', 'start'], bin: 'astro', args: 'dev', port: 4321 },
+  { name: 'SvelteKit', dependency: '@sveltejs/kit', scripts: ['dev', 'start'], bin: 'vite', args: 'dev', port: 5173 },
+  { name: 'Angular CLI', dependency: '@angular/cli', scripts: ['start', 'dev'], bin: 'ng', args: 'serve', port: 4200 },
+  { name: 'Create React App', dependency: 'react-scripts', scripts: ['start', 'dev'], bin: 'react-scripts', args: 'start', port: 3000 },
+  { name: 'Vite', dependency: 'vite', scripts: ['dev', 'start'], bin: 'vite', args: '', port: 5173 },
+];
+
+function portOf(script: string, framework: AppFramework): number {
+  const port = script.match(/(?:--port[= ]|-p )(\d+)/)?.[1];
+  if (port)
+    return Number(port);
+  // Classic Remix, before it moved to Vite, serves on 3000.
+  if (framework.dependency === '@remix-run/dev' && /\bremix dev\b/.test(script))
+    return 3000;
+  return framework.port;
+}
+
+/**
+ * Works out how to start the dev server of the app in projectDir from the dependencies and scripts of its package.json.
+ */
+export function detectDevServer(projectDir: string, packageManager: PackageManager): DevServer | undefined {
+  let packageJSON;
+  try {
+    packageJSON = JSON.parse(fs.readFileSync(path.join(projectDir, 'package.json'), 'utf-8'));
+  } catch (e) {
+    return;
+  }
+  const dependencies = { ...packageJSON.dependencies, ...packageJSON.devDependencies };
+  const scripts: Record<string, string> = packageJSON.scripts || {};
+  const framework = appFrameworks.find(framework => framework.dependency in dependencies);
+  if (!framework)
+    return;
+  const script = framework.scripts.find(name => typeof scripts[name] === 'string');
+  return {
+    framework: framework.name,
+    command: script ? packageManager.run(script) : packageManager.npx(framework.bin, framework.args).trim(),
+    url: `http://localhost:${portOf(script ? scripts[script]! : '', framework)}`,
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { createRequire } from 'module';
+import path from 'path';
+
+// Snapshot of the public `devices` export of @playwright/test, see utils/roll_devices.js.
+import bundledDevices from '../assets/devices.json';
+
+export type BrowserName = 'chromium' | 'firefox' | 'webkit';
+
+export const browserNames: BrowserName[] = ['chromium', 'firefox', 'webkit'];
+
+export type DeviceRegistry = Record<string, { defaultBrowserType: BrowserName }>;
+
+/** Branded browsers, installed via `playwright install <channel>`. */
+export const browserChannels = {
+  'chrome': { name: 'Google Chrome', device: 'Desktop Chrome' },
+  'chrome-beta': { name: 'Google Chrome Beta', device: 'Desktop Chrome' },
+  'chrome-dev': { name: 'Google Chrome Dev', device: 'Desktop Chrome' },
+  'chrome-canary': { name: 'Google Chrome Canary', device: 'Desktop Chrome' },
+  'msedge': { name: 'Microsoft Edge', device: 'Desktop Edge' },
+  'msedge-beta': { name: 'Microsoft Edge Beta', device: 'Desktop Edge' },
+  'msedge-dev': { name: 'Microsoft Edge Dev', device: 'Desktop Edge' },
+  'msedge-canary': { name: 'Microsoft Edge Canary', device: 'Desktop Edge' },
+};
+
+export type BrowserChannel = keyof typeof browserChannels;
+
+/**
+ * The devices of the @playwright/test installed in rootDir, or the bundled ones when it is not installed yet.
+ */
+export function deviceRegistry(rootDir: string): DeviceRegistry {
+  try {
+    return createRequire(path.join(rootDir, 'package.json'))('@playwright/test').devices;
+  } catch (e) {
+    return bundledDevices as DeviceRegistry;
+  }
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++)
+      current[j] = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + (a[i - 1] === b[j - 1] ? 0 : 1));
+    previous = current;
+  }
+  return previous[b.length]!;
+}
+
+function suggestDevice(name: string, registry: DeviceRegistry): string | undefined {
+  let best: { device: string, distance: number } | undefined;
+  for (const device of Object.keys(registry)) {
+    const distance = editDistance(name.toLowerCase(), device.toLowerCase());
+    if (!best || distance < best.distance)
+      best = { device, distance };
+  }
+  // Typos and different casing, not a different device altogether.
+  return best && best.distance <= Math.max(2, Math.floor(name.length / 4)) ? best.device : undefined;
+}
+
+/**
+ * Throws for names that are not in the registry, suggesting the closest device for each of them.
+ */
+export function validateDevices(names: string[], registry: DeviceRegistry) {
+  const unknown = names.filter(name => !(name in registry));
+  if (!unknown.length)
+    return;
+  const lines = unknown.map(name => {
+    const suggestion = suggestDevice(name, registry);
+    return `Unknown device '${name}'` + (suggestion ? `, did you mean '${suggestion}'?` : '.');
+  });
+  lines.push('See https://github.com/microsoft/playwright/blob/main/packages/playwright-core/src/server/deviceDescriptorsSource.json for the available ones.');
+  throw new Error(lines.join('\n'));
+}
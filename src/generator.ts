@@ -13,6 +13,7 @@
  * See the License for the specific language governing permissions and
  * limitations under the License.
  */
+import { execSync } from 'child_process';
 import fs from 'fs';
 import path from 'path';
 
@@ -20,87 +21,268 @@ import colors from 'ansi-colors';
 import { prompt } from 'enquirer';
 import ini from 'ini';
 
-import { type PackageManager, determinePackageManager } from './packageManager';
-import { Command, createFiles, executeCommands, executeTemplate, getFileExtensionCT, languageToFileExtension } from './utils';
+import { type CIProvider, type GHATrigger, ciProviders, detectDefaultBranch, detectNodeVersion, ghaTriggers } from './ci';
+import { escapeJSString } from './configEditor';
+import { type CTFramework, ctFrameworkWarning, ctFrameworks, detectCTFramework } from './ctFramework';
+import { detectDevServer } from './devServer';
+import { type BrowserChannel, type BrowserName, browserChannels, browserNames, deviceRegistry, validateDevices } from './devices';
+import { type ModuleType, addImportExtension, toJavaScript } from './javascript';
+import { Journal } from './journal';
+import { type PackageManager, type WorkspacePackage, determinePackageManager } from './packageManager';
+import { Command, ConflictStrategy, type SectionMode, type TemplateValue, createFiles, createUnifiedDiff, executeCommands, executeTemplate, getFileExtensionCT, languageToFileExtension } from './utils';
+import { type TemplatePack, isOutside, resolveTemplatePack } from './templatePack';
+import { resolveWorkspacePackage, workspacePackageFiles } from './workspace';
 
 export type PromptOptions = {
   testDir: string,
   installGitHubActions: boolean,
+  ciProvider?: CIProvider | 'none',
+  ghaTriggers?: GHATrigger[],
   language: 'JavaScript' | 'TypeScript',
-  framework?: 'react' | 'react17' | 'vue' | 'vue2' | 'svelte' | 'solid' | undefined,
+  framework?: CTFramework | undefined,
+  /** Set up end-to-end tests next to the component tests of the framework. */
+  e2e?: boolean,
+  /** Directory of the component tests when they are set up together with end-to-end tests. */
+  ctTestDir?: string,
   installPlaywrightDependencies: boolean,
   installPlaywrightBrowsers: boolean,
+  /** Browsers to add a project for, all of them if not set. */
+  browsers?: BrowserName[],
+  /** Devices from Playwright's registry to add a project for, e.g. 'Pixel 5'. */
+  devices?: string[],
+  /** Branded browsers to add a project for. */
+  channels?: BrowserChannel[],
+  /** Answers to the prompts declared by the template pack. */
+  templateVariables?: Record<string, string | boolean>,
+  /** Dev server to start before the tests, its URL becomes the baseURL. */
+  webServer?: { command: string, url: string },
 };
 
 const assetsDir = path.join(__dirname, '..', 'assets');
 
 export type CliOptions = {
   lang?: string;
-  browser?: string[];
+  browser?: BrowserName[];
+  device?: string[];
+  channel?: BrowserChannel[];
   noBrowsers?: boolean;
+  /** Installs chromium-headless-shell instead of the full Chromium. */
+  onlyShell?: boolean;
   noExamples?: boolean;
+  noWebServer?: boolean;
   installDeps?: boolean;
   next?: boolean;
   beta?: boolean;
   ct?: boolean;
+  framework?: CTFramework;
+  e2e?: boolean;
+  /** Roles to sign in as in the setup project, the first one is used by default. */
+  auth?: string[];
+  /** 'pom' generates page objects and fixtures next to the example test. */
+  structure?: 'flat' | 'pom';
   quiet?: boolean;
   gha?: boolean;
+  ci?: CIProvider;
+  shards?: number;
+  docker?: boolean;
+  ghaTrigger?: GHATrigger[];
   testDir?: string;
+  dryRun?: boolean | 'json';
+  onConflict?: ConflictStrategy;
+  keepOnFailure?: boolean;
+  packageManager?: string;
+  workspacePackage?: string;
+  template?: string;
+  module?: ModuleType;
+  /** Adds only this part to an existing project, see `create-playwright add`. */
+  add?: 'ct' | 'gha';
+  /** Answers from --answers or create-playwright.config.json, only used in quiet mode. */
+  answers?: Partial<PromptOptions>;
 };
 
+type PlannedFile = {
+  path: string;
+  action: 'create' | 'modify' | 'unchanged';
+  content: string;
+  diff?: string;
+};
+
+// Generated files, ignored by git and excluded from the Docker build context.
+const playwrightIgnores = {
+  'node_modules/': /^node_modules\/?/m,
+  '/test-results/': /^\/?test-results\/?$/m,
+  '/playwright-report/': /^\/playwright-report\/?$/m,
+  '/blob-report/': /^\/blob-report\/?$/m,
+  '/playwright/.cache/': /^\/playwright\/\.cache\/?$/m,
+  '/playwright/.auth/': /^\/playwright\/\.auth\/?$/m,
+};
+
+function isTypeScriptFile(file: string): boolean {
+  return /\.tsx?$/.test(file) && !file.endsWith('.d.ts');
+}
+
+// Inside of /playwright/.auth/, which is ignored by git.
+function authStateFile(role: string): string {
+  return `playwright/.auth/${role}.json`;
+}
+
+function hasEndToEndTests(answers: PromptOptions): boolean {
+  return !answers.framework || !!answers.e2e;
+}
+
+function yamlScalar(value: string): string {
+  return /^[\w./*-]+$/.test(value) ? value : JSON.stringify(value);
+}
+
 export class Generator {
   private readonly options: CliOptions
   private packageManager: PackageManager;
+  private readonly workspacePackage: WorkspacePackage | undefined;
+  // Directory of the Playwright package, differs from rootDir when scaffolding a workspace package.
+  private readonly projectDir: string;
+  private _templatePack: TemplatePack | undefined;
+  private _templateArgs: Record<string, string> = {};
+  private _templateSections = new Map<string, SectionMode>();
 
   constructor(private readonly rootDir: string, options: CliOptions) {
     this.options = options;
-    if (!fs.existsSync(rootDir))
-      fs.mkdirSync(rootDir);
-    this.packageManager = determinePackageManager(rootDir);
+    this.workspacePackage = options.workspacePackage ? resolveWorkspacePackage(rootDir, options.workspacePackage) : undefined;
+    this.projectDir = this.workspacePackage ? path.join(rootDir, this.workspacePackage.path) : rootDir;
+    this.packageManager = determinePackageManager(rootDir, options.packageManager, this.workspacePackage);
+  }
+
+  private _projectFile(relativeFilePath: string): string {
+    return this.workspacePackage ? path.join(this.workspacePackage.path, relativeFilePath) : relativeFilePath;
   }
 
   async run() {
-    this._printPrologue();
+    this._templatePack = this.options.template ? resolveTemplatePack(this.options.template) : undefined;
+    try {
+      await this._run();
+    } finally {
+      this._templatePack?.dispose();
+    }
+  }
+
+  private async _run() {
+    if (this.options.dryRun !== 'json' && !this.options.add)
+      this._printPrologue();
     const answers = await this._askQuestions();
-    const { files, commands: allCommands } = await this._identifyChanges(answers);
+    await this._askTemplateQuestions(answers);
+    const { files, setupFiles, commands: allCommands } = await this._identifyChanges(answers);
+    if (this.options.dryRun) {
+      this._printDryRun(answers, setupFiles, files, allCommands);
+      return;
+    }
     const [preCommands, postCommands] = allCommands.reduce((acc, command) => {
       acc[command.phase === 'pre' ? 0 : 1].push(command);
       return acc;
     }, [[] as Command[], [] as Command[]]);
-    executeCommands(this.rootDir, preCommands);
-    await createFiles(this.rootDir, files, false, !!this.options.quiet);
-    this._patchGitIgnore();
-    await this._patchPackageJSON(answers);
-    executeCommands(this.rootDir, postCommands);
-    if (answers.framework)
-      this._printEpilogueCT();
+    const journal = new Journal();
+    try {
+      journal.recordDirectory(this.rootDir);
+      if (!fs.existsSync(this.rootDir))
+        fs.mkdirSync(this.rootDir);
+      this._recordPackageManagerFiles(journal);
+      await createFiles(this.rootDir, setupFiles, true, false, 'prompt', journal);
+      executeCommands(this.rootDir, preCommands);
+      if (this.options.docker)
+        this._pinPlaywrightVersion(files);
+      await createFiles(this.rootDir, files, false, !!this.options.quiet, this.options.onConflict, journal);
+      if (this._patchesProjectFiles()) {
+        this._patchGitIgnore(answers, journal);
+        await this._patchPackageJSON(answers, journal);
+      }
+      executeCommands(this.rootDir, postCommands);
+    } catch (error) {
+      this._handleFailure(journal);
+      throw error;
+    }
+    if (!hasEndToEndTests(answers))
+      this._printEpilogueCT(answers);
+    else if (this.options.add === 'gha')
+      console.log(colors.green('✔ Success!') + ' ' + colors.bold(`Added a ${ciProviders.github.name} workflow to ${this.rootDir}`));
     else
       this._printEpilogue(answers);
   }
 
+  private _recordPackageManagerFiles(journal: Journal) {
+    // Files and directories that init / install commands may create or modify.
+    for (const file of ['package.json', 'package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lock', 'bun.lockb', '.pnp.cjs', '.pnp.loader.mjs', '.yarnrc.yml'])
+      journal.recordFile(path.join(this.rootDir, file));
+    for (const dir of ['node_modules', '.yarn'])
+      journal.recordDirectory(path.join(this.rootDir, dir));
+    journal.recordFile(path.join(this.projectDir, 'package.json'));
+    journal.recordDirectory(path.join(this.projectDir, 'node_modules'));
+  }
+
+  private _handleFailure(journal: Journal) {
+    if (this.options.keepOnFailure) {
+      console.log(colors.yellow(`Initialization failed, keeping the partially initialized project in '${path.relative(process.cwd(), this.rootDir) || '.'}'.`));
+      return;
+    }
+    console.log(colors.yellow('Initialization failed, rolling back changes (pass --keep-on-failure to keep them).'));
+    const packageJSONPath = path.join(this.projectDir, 'package.json');
+    const addedDependencies = journal.addedDependencies(packageJSONPath);
+    journal.rollback();
+    if (addedDependencies.length && fs.existsSync(path.join(this.rootDir, 'node_modules')))
+      console.log(colors.yellow(`Removed ${addedDependencies.join(', ')} from package.json, run '${this.packageManager.i()}' to prune node_modules.`));
+  }
+
   private _printPrologue() {
     console.log(colors.yellow(`Getting started with writing ${colors.bold('end-to-end')} tests with ${colors.bold('Playwright')}:`));
-    console.log(`Initializing project in '${path.relative(process.cwd(), this.rootDir) || '.'}'`);
+    console.log(`Initializing project in '${path.relative(process.cwd(), this.projectDir) || '.'}'`);
   }
 
   private async _askQuestions(): Promise<PromptOptions> {
     if (process.env.TEST_OPTIONS)
       return JSON.parse(process.env.TEST_OPTIONS);
 
-    const testDir = this.options.testDir || (fs.existsSync(path.join(this.rootDir, 'tests')) ? 'e2e' : 'tests');
+    const testDir = this.options.testDir || (fs.existsSync(path.join(this.projectDir, 'tests')) ? 'e2e' : 'tests');
+    const devServer = this.options.noWebServer ? undefined : detectDevServer(this.projectDir, this.packageManager);
+    const ctFramework = this.options.ct ? detectCTFramework(this.projectDir) : undefined;
+    const registry = deviceRegistry(this.projectDir);
 
     if (this.options.quiet) {
+      // Flags take precedence over the answers file, the rest falls back to the defaults of the prompts.
+      const answers = this.options.answers || {};
+      const ciProvider = this.options.ci || (this.options.gha ? 'github' : answers.ciProvider || 'none');
+      const framework = this.options.framework || answers.framework || (this.options.ct ? ctFramework?.framework || 'react' : undefined);
+      this._warnAboutCTFramework(ctFramework, framework);
+      const e2e = this.options.e2e || answers.e2e;
+      const devices = this.options.device || answers.devices || [];
+      validateDevices(devices, registry);
       return {
-        installGitHubActions: !!this.options.gha,
-        language: this.options.lang === 'js' ? 'JavaScript' : 'TypeScript',
-        installPlaywrightDependencies: !!this.options.installDeps,
-        testDir,
-        framework: undefined,
-        installPlaywrightBrowsers: !this.options.noBrowsers,
+        installGitHubActions: ciProvider === 'github',
+        ciProvider,
+        ghaTriggers: this.options.ghaTrigger || answers.ghaTriggers || [],
+        language: this.options.lang ? (this.options.lang === 'js' ? 'JavaScript' : 'TypeScript') : answers.language || 'TypeScript',
+        installPlaywrightDependencies: !!this.options.installDeps || !!answers.installPlaywrightDependencies,
+        // Like with --ct --e2e, component tests of existing projects stay apart from the end-to-end tests.
+        testDir: this.options.testDir || answers.testDir || (this.options.add === 'ct' ? 'src' : testDir),
+        framework,
+        e2e,
+        ctTestDir: e2e ? answers.ctTestDir : undefined,
+        installPlaywrightBrowsers: !this.options.noBrowsers && answers.installPlaywrightBrowsers !== false,
+        devices,
+        channels: this.options.channel || answers.channels || [],
+        templateVariables: answers.templateVariables,
+        webServer: this.options.noWebServer || (this.options.ct && !e2e) ? undefined : answers.webServer || (devServer && { command: devServer.command, url: devServer.url }),
       };
     }
 
-    const isDefinitelyTS = fs.existsSync(path.join(this.rootDir, 'tsconfig.json'));
+    validateDevices(this.options.device || [], registry);
+    const isDefinitelyTS = fs.existsSync(path.join(this.projectDir, 'tsconfig.json'));
+    // The follow-up questions depend on it, so it is asked on its own.
+    let e2e = !this.options.ct;
+    if (this.options.ct && this.options.add !== 'ct') {
+      e2e = this.options.e2e || (await prompt<{ e2e: boolean }>({
+        type: 'confirm',
+        name: 'e2e',
+        message: 'Set up end-to-end tests as well?',
+        initial: false,
+      })).e2e;
+    }
 
     const questions = [
       !isDefinitelyTS && {
@@ -118,28 +300,58 @@ export class Generator {
         type: 'select',
         name: 'framework',
         message: 'Which framework do you use? (experimental)',
-        choices: [
-          { name: 'react', message: 'React 18' },
-          { name: 'react17', message: 'React 17' },
-          { name: 'vue', message: 'Vue 3' },
-          { name: 'vue2', message: 'Vue 2' },
-          { name: 'svelte', message: 'Svelte' },
-          { name: 'solid', message: 'Solid' },
-        ],
+        choices: Object.entries(ctFrameworks).map(([name, message]) => ({ name, message })),
+        initial: this.options.framework || ctFramework?.framework || 'react',
+        skip: !!this.options.framework,
       },
-      !this.options.ct && {
+      e2e && {
         type: 'text',
         name: 'testDir',
         message: 'Where to put your end-to-end tests?',
         initial: testDir,
         skip: !!this.options.testDir,
       },
-      !this.options.ct && {
-        type: 'confirm',
-        name: 'installGitHubActions',
-        message: 'Add a GitHub Actions workflow?',
-        initial: true,
-        skip: !!this.options.gha,
+      e2e && this.options.ct && {
+        type: 'text',
+        name: 'ctTestDir',
+        message: 'Where to put your component tests?',
+        initial: 'src',
+      },
+      e2e && {
+        type: 'select',
+        name: 'ciProvider',
+        message: 'Add a CI pipeline?',
+        choices: [
+          ...Object.entries(ciProviders).map(([name, provider]) => ({ name, message: `${provider.name} (${provider.file})` })),
+          { name: 'none', message: 'No' },
+        ],
+        initial: this.options.ci || 'github',
+        skip: !!this.options.gha || !!this.options.ci,
+      },
+      // The desktop devices are covered by the browsers and channels.
+      e2e && !this.options.device && {
+        type: 'multiselect',
+        name: 'devices',
+        message: 'Test on emulated mobile devices as well?',
+        choices: Object.keys(registry).filter(name => !name.startsWith('Desktop ')),
+        limit: 10,
+      },
+      e2e && !this.options.channel && {
+        type: 'multiselect',
+        name: 'channels',
+        message: 'Test on branded browsers as well?',
+        choices: Object.entries(browserChannels).map(([name, channel]) => ({ name, message: channel.name })),
+      },
+      !this.options.browser && {
+        type: 'multiselect',
+        name: 'browsers',
+        message: 'Which browsers do you want to test on?',
+        choices: [
+          { name: 'chromium', message: 'Chromium', enabled: true },
+          { name: 'firefox', message: 'Firefox', enabled: true },
+          { name: 'webkit', message: 'WebKit', enabled: true },
+        ],
+        validate: (value: string) => value.length ? true : 'Select at least one browser.',
       },
       {
         type: 'confirm',
@@ -166,51 +378,210 @@ export class Generator {
     );
     if (isDefinitelyTS)
       result.language = 'TypeScript';
+    if (this.options.ct)
+      this._warnAboutCTFramework(ctFramework, result.framework);
+    if (this.options.ct && e2e)
+      result.e2e = true;
+    result.devices = this.options.device || result.devices || [];
+    result.channels = this.options.channel || result.channels || [];
+    result.installGitHubActions = result.ciProvider === 'github';
+    result.ghaTriggers = this.options.ghaTrigger || [];
+    if (result.installGitHubActions && !this.options.ghaTrigger) {
+      const { ghaTriggers } = await prompt<{ ghaTriggers: GHATrigger[] }>({
+        type: 'multiselect',
+        name: 'ghaTriggers',
+        message: 'Run the workflow on other triggers as well?',
+        choices: [
+          { name: 'schedule', message: 'Every night (schedule)' },
+          { name: 'workflow_dispatch', message: 'Manually, for a given project (workflow_dispatch)' },
+        ],
+      });
+      result.ghaTriggers = ghaTriggers;
+    }
+    if (devServer && hasEndToEndTests(result)) {
+      const { startWebServer } = await prompt<{ startWebServer: boolean }>({
+        type: 'confirm',
+        name: 'startWebServer',
+        message: `Start the ${devServer.framework} dev server before running the tests?`,
+        initial: true,
+      });
+      if (startWebServer) {
+        result.webServer = await prompt<{ command: string, url: string }>([
+          { type: 'input', name: 'command', message: 'Command that starts the dev server:', initial: devServer.command },
+          { type: 'input', name: 'url', message: 'URL of the app (used as baseURL):', initial: devServer.url },
+        ]);
+      }
+    }
     return result;
   }
 
+  private _warnAboutCTFramework(detection: ReturnType<typeof detectCTFramework>, framework: CTFramework | undefined) {
+    const warning = ctFrameworkWarning(detection, framework);
+    if (warning)
+      console.warn(colors.yellow(warning));
+  }
+
+  private async _askTemplateQuestions(answers: PromptOptions) {
+    const questions = this._templatePack?.manifest.prompts || [];
+    const templateVariables = { ...answers.templateVariables };
+    const unanswered = questions.filter(question => !(question.name in templateVariables));
+    if (this.options.quiet || process.env.TEST_OPTIONS) {
+      for (const question of unanswered)
+        templateVariables[question.name] = question.initial ?? (question.type === 'confirm' ? false : question.choices?.[0] ?? '');
+    } else if (unanswered.length) {
+      Object.assign(templateVariables, await prompt<Record<string, string | boolean>>(unanswered.map(question => ({ ...question }))));
+    }
+    if (questions.length || answers.templateVariables)
+      answers.templateVariables = templateVariables;
+
+    this._templateArgs = { ...this._templatePack?.manifest.variables };
+    for (const [name, value] of Object.entries(templateVariables)) {
+      if (typeof value === 'boolean')
+        this._templateSections.set(name, value ? 'show' : 'hide');
+      else
+        this._templateArgs[name] = value;
+    }
+  }
+
   private async _identifyChanges(answers: PromptOptions) {
     const commands: (Command & { phase: 'pre' | 'post' })[] = [];
     const files = new Map<string, string>();
-    const fileExtension = languageToFileExtension(answers.language);
-
-    const sections = new Map<string, 'show' | 'hide' | 'comment'>();
-    for (const browserName of ['chromium', 'firefox', 'webkit'])
-      sections.set(browserName, !this.options.browser || this.options.browser.includes(browserName) ? 'show' : 'comment');
-
-    if (answers.language === 'TypeScript')
-      files.set('tsconfig.json', this._readAsset('tsconfig.json'));
+    // Written before the pre commands, so that they can install into the workspace package.
+    const setupFiles = this.workspacePackage ? workspacePackageFiles(this.rootDir, this.workspacePackage, this.packageManager.cli) : new Map<string, string>();
+    // Assets are looked up by their .js / .ts name, the files get the extension that matches the module system.
+    const assetExtension = languageToFileExtension(answers.language);
+    const fileExtension = this._fileExtension(answers.language);
+
+    const sections = new Map<string, SectionMode>();
+    const browsers = this._browsers(answers);
+    for (const browserName of browserNames)
+      sections.set(browserName, browsers.includes(browserName) ? 'show' : 'comment');
+    sections.set('web-server', answers.webServer ? 'show' : 'comment');
+
+    // Existing projects keep their own setup, only the requested part is added.
+    const newProject = !this.options.add;
+    if (answers.language === 'TypeScript' && newProject)
+      files.set(this._projectFile('tsconfig.json'), this._renderAsset('tsconfig.json'));
+
+    const ciProvider = answers.ciProvider ? (answers.ciProvider !== 'none' ? answers.ciProvider : undefined) : (answers.installGitHubActions ? 'github' : undefined);
+    const e2e = hasEndToEndTests(answers);
+    const shards = ciProvider === 'github' && e2e ? this.options.shards : undefined;
+    if (this.options.shards && !shards)
+      console.warn(colors.yellow('--shards is only supported for end-to-end tests on GitHub Actions, ignoring it.'));
+    const authRoles = e2e && newProject ? this.options.auth || [] : [];
+    if (this.options.auth && !authRoles.length)
+      console.warn(colors.yellow('--auth is only supported for new end-to-end projects, ignoring it.'));
+    sections.set('auth', authRoles.length ? 'show' : 'hide');
 
     let ctPackageName;
     let installExamples = !this.options.noExamples;
     if (answers.framework) {
       ctPackageName = `@playwright/experimental-ct-${answers.framework}`;
-      installExamples = false;
-      files.set(`playwright-ct.config.${fileExtension}`, executeTemplate(this._readAsset(`playwright-ct.config.${fileExtension}`), {
-        testDir: answers.testDir || '',
+      let ctConfig = this._renderAsset(`playwright-ct.config.${assetExtension}`, {
+        testDir: this._ctTestDir(answers),
         ctPackageName,
-      }, sections));
-    } else {
-      files.set(`playwright.config.${fileExtension}`, executeTemplate(this._readAsset(`playwright.config.${fileExtension}`), {
+      }, sections);
+      // Keeps the HTML reports of both suites apart, they are uploaded as separate artifacts on CI.
+      if (this._hasBothSuites(answers))
+        ctConfig = ctConfig.replace(`reporter: 'html',`, `reporter: [['html', { outputFolder: 'playwright-ct-report' }]],`);
+      files.set(this._projectFile(`playwright-ct.config.${fileExtension}`), ctConfig);
+    }
+    if (e2e && newProject) {
+      let playwrightConfig = this._renderAsset(`playwright.config.${assetExtension}`, {
         testDir: answers.testDir || '',
-      }, sections));
+        // Commented out examples unless a dev server was detected or given.
+        webServerCommand: escapeJSString(answers.webServer?.command || 'npm run start'),
+        baseURL: escapeJSString(answers.webServer?.url || 'http://localhost:3000'),
+        authFile: authRoles.length ? authStateFile(authRoles[0]!) : '',
+        projects: [
+          ...(answers.devices || []).map(device => ({ name: escapeJSString(device), device: escapeJSString(device), channel: '' })),
+          ...(answers.channels || []).map(channel => ({ name: browserChannels[channel].name, device: browserChannels[channel].device, channel })),
+        ],
+      }, sections);
+      // Every shard writes a blob report on CI, the merge-reports job combines them into a single HTML report.
+      if (shards)
+        playwrightConfig = playwrightConfig.replace(`reporter: 'html',`, `reporter: process.env.CI ? 'blob' : 'html',`);
+      files.set(this._projectFile(`playwright.config.${fileExtension}`), playwrightConfig);
     }
 
-    if (answers.installGitHubActions) {
-      const npmrcExists = fs.existsSync(path.join(this.rootDir, '.npmrc'));
-      const packageLockDisabled = npmrcExists && ini.parse(fs.readFileSync(path.join(this.rootDir, '.npmrc'), 'utf-8'))['package-lock'] === false;
-      const githubActionsScript = executeTemplate(this._readAsset('github-actions.yml'), {
-        installDepsCommand: packageLockDisabled ? this.packageManager.i() : this.packageManager.ci(),
-        installPlaywrightCommand: this.packageManager.npx('playwright', 'install --with-deps'),
-        runTestsCommand: answers.framework ? this.packageManager.run('test-ct') : this.packageManager.runPlaywrightTest(),
-      }, new Map());
-      files.set('.github/workflows/playwright.yml', githubActionsScript);
+    const npmrcExists = fs.existsSync(path.join(this.rootDir, '.npmrc'));
+    const packageLockDisabled = npmrcExists && ini.parse(fs.readFileSync(path.join(this.rootDir, '.npmrc'), 'utf-8'))['package-lock'] === false;
+    const installDepsCommand = packageLockDisabled ? this.packageManager.i() : this.packageManager.ci();
+    const browsersSuffix = this._browsersToInstall(answers).map(browser => ' ' + browser).join('') + (this.options.onlyShell ? ' --only-shell' : '');
+    if (ciProvider) {
+      const isBun = this.packageManager.cli === 'bun';
+      // GitHub Actions sets up Bun through oven-sh/setup-bun instead.
+      const ciSetupCommand = ciProvider === 'github' && isBun ? undefined : this.packageManager.ciSetup();
+      const triggers = ciProvider === 'github' ? answers.ghaTriggers || [] : [];
+      const testArgs = [];
+      if (shards)
+        testArgs.push('--shard=${{ matrix.shardIndex }}/${{ matrix.shardTotal }}');
+      // Manual runs may restrict the tests to a single project, other events leave the input empty.
+      if (triggers.includes('workflow_dispatch'))
+        testArgs.push(`\${{ inputs.project && format('--project={0}', inputs.project) || '' }}`);
+      const defaultBranch = detectDefaultBranch(this.rootDir);
+      const { asset, file } = ciProviders[ciProvider];
+      const args = {
+        branches: defaultBranch ? yamlScalar(defaultBranch) : 'main, master',
+        nodeVersion: yamlScalar(detectNodeVersion([...new Set([this.projectDir, this.rootDir])]) || 'lts/*'),
+        ciSetupCommand: ciSetupCommand || '',
+        cache: this.packageManager.ciCache || '',
+        installDepsCommand,
+        installPlaywrightCommand: this.packageManager.npx('playwright', 'install --with-deps') + browsersSuffix,
+        runTestsCommand: this._runTestsCommand(answers, testArgs.join(' '), ciProvider !== 'github'),
+        runComponentTestsCommand: this.packageManager.run('test-ct'),
+        reportDir: this.workspacePackage ? `${this.workspacePackage.path}/` : '',
+        shardIndices: shards ? Array.from({ length: shards }, (_, i) => i + 1).join(', ') : '',
+        shardTotal: String(shards || ''),
+        mergeReportsCommand: this.packageManager.npx('playwright', 'merge-reports --reporter html ./all-blob-reports'),
+        // Pinned once @playwright/test is installed, see _pinPlaywrightVersion.
+        playwrightVersion: '{{playwrightVersion}}',
+      };
+      const ciSections = new Map<string, SectionMode>([
+        ['ci-setup', ciSetupCommand ? 'show' : 'hide'],
+        ['cache', this.packageManager.ciCache ? 'show' : 'hide'],
+        ['bun', isBun ? 'show' : 'hide'],
+        ['shards', shards ? 'show' : 'hide'],
+        ['no-shards', shards ? 'hide' : 'show'],
+        ['docker', this.options.docker ? 'show' : 'hide'],
+        ['no-docker', this.options.docker ? 'hide' : 'show'],
+        // GitHub Actions runs the component tests in a job of their own, the other pipelines run both suites in a row.
+        ['ct-job', e2e && answers.framework ? 'show' : 'hide'],
+        ...ghaTriggers.map(trigger => [trigger.replace('_', '-'), triggers.includes(trigger) ? 'show' : 'hide'] as const),
+      ]);
+      files.set(file, this._renderAsset(asset, args, ciSections));
     }
 
-    if (installExamples)
-      files.set(path.join(answers.testDir, `example.spec.${fileExtension}`), this._readAsset(`example.spec.${fileExtension}`));
+    // The image tag is pinned to the installed version, see _pinPlaywrightVersion.
+    if (this.options.docker) {
+      const ciSetupCommand = this.packageManager.ciSetup();
+      files.set('Dockerfile', this._renderAsset('Dockerfile', {
+        ciSetupCommand: ciSetupCommand || '',
+        installDepsCommand,
+        runTestsCommand: this._runTestsCommand(answers, '', true),
+        playwrightVersion: '{{playwrightVersion}}',
+      }, new Map([['ci-setup', ciSetupCommand ? 'show' : 'hide']])));
+      files.set('docker-compose.yml', this._renderAsset('docker-compose.yml'));
+      files.set('.dockerignore', Object.keys(this._playwrightIgnores(answers)).map(entry => {
+        if (entry === 'node_modules/')
+          return '**/node_modules';
+        return (this.workspacePackage ? `${this.workspacePackage.path}/` : '') + entry.replace(/^\//, '').replace(/\/$/, '');
+      }).join('\n') + '\n');
+    }
+
+    if (authRoles.length) {
+      files.set(this._projectFile(path.join(answers.testDir, `auth.setup.${fileExtension}`)), this._renderAsset(`auth.setup.${assetExtension}`, {
+        roles: authRoles.map(role => ({ name: role, env: role.toUpperCase().replace(/-/g, '_'), stateFile: authStateFile(role) })),
+        loginURL: escapeJSString(`${(answers.webServer?.url || 'http://localhost:3000').replace(/\/$/, '')}/login`),
+      }));
+    }
 
-    if (!fs.existsSync(path.join(this.rootDir, 'package.json'))) {
+    if (e2e && newProject && this.options.structure === 'pom')
+      this._addPageObjects(files, answers, installExamples);
+    else if (installExamples && e2e)
+      files.set(this._projectFile(path.join(answers.testDir, `example.spec.${fileExtension}`)), this._renderAsset(`example.spec.${assetExtension}`, { testDir: answers.testDir }, sections));
+
+    if (!this.workspacePackage && !fs.existsSync(path.join(this.rootDir, 'package.json'))) {
       commands.push({
         name: `Initializing ${this.packageManager.name} project`,
         command: this.packageManager.init(),
@@ -218,13 +589,9 @@ export class Generator {
       });
     }
 
-    let packageTag = '';
-    if (this.options.beta)
-      packageTag = '@beta';
-    if (this.options.next)
-      packageTag = '@next';
+    const packageTag = this._packageTag();
 
-    if (!this.options.ct) {
+    if (e2e && newProject) {
       commands.push({
         name: 'Installing Playwright Test',
         command: this.packageManager.installDevDependency(`@playwright/test${packageTag}`),
@@ -239,15 +606,18 @@ export class Generator {
         phase: 'pre',
       });
 
-      const extension = getFileExtensionCT(answers.language, answers.framework);
-      const htmlTemplate = executeTemplate(this._readAsset(path.join('playwright', 'index.html')), { extension }, new Map());
-      files.set('playwright/index.html', htmlTemplate);
+      const extension = getFileExtensionCT(answers.language, answers.framework, this._moduleType(), this._packageModuleType());
+      const htmlTemplate = this._renderAsset(path.join('playwright', 'index.html'), { extension }, new Map());
+      files.set(this._projectFile('playwright/index.html'), htmlTemplate);
+
+      const jsTemplate = this._renderAsset(path.join('playwright', 'index.js'));
+      files.set(this._projectFile(`playwright/index.${extension}`), jsTemplate);
 
-      const jsTemplate = this._readAsset(path.join('playwright', 'index.js'));
-      files.set(`playwright/index.${extension}`, jsTemplate);
+      if (installExamples)
+        this._addCTExamples(files, commands, answers, ctPackageName!);
     }
 
-    if (!this._hasDependency('@types/node')) {
+    if (!this._hasDependency('@types/node') && newProject) {
       commands.push({
         name: 'Installing Types',
         command: this.packageManager.installDevDependency(`@types/node`),
@@ -255,7 +625,6 @@ export class Generator {
       });
     }
 
-    const browsersSuffix = this.options.browser ? ' ' + this.options.browser.join(' ') : '';
     if (answers.installPlaywrightBrowsers) {
       commands.push({
         name: 'Downloading browsers',
@@ -264,37 +633,156 @@ export class Generator {
       });
     }
 
-    const skillContent = this._readAsset('playwright-skill.md');
-    files.set('.claude/skills/playwright/SKILL.md', skillContent);
+    for (const [destination, source] of Object.entries(this._templatePack?.manifest.files || {})) {
+      const args = { testDir: answers.testDir || '' };
+      let file = executeTemplate(destination, { ...this._templateArgs, ...args }, new Map());
+      if (answers.language === 'JavaScript' && isTypeScriptFile(file))
+        file = file.replace(/\.ts(x?)$/, '.js$1');
+      if (isOutside(this.projectDir, file))
+        throw new Error(`Template file '${file}' is outside of the project`);
+      const sourcePath = path.join(this._templatePack!.dir, isTypeScriptFile(source) && !isTypeScriptFile(file) ? source.replace(/\.ts(x?)$/, '.js$1') : source);
+      files.set(this._projectFile(file), this._renderAsset(sourcePath, args, sections));
+    }
+
+    if (newProject) {
+      const skillContent = this._renderAsset('playwright-skill.md');
+      files.set('.claude/skills/playwright/SKILL.md', skillContent);
+    }
+
+    return { files, setupFiles, commands };
+  }
+
+  private _addPageObjects(files: Map<string, string>, answers: PromptOptions, withExample: boolean) {
+    const assetExtension = languageToFileExtension(answers.language);
+    const fileExtension = this._fileExtension(answers.language);
+    const pomFiles = ['fixtures', 'pages/base-page', 'pages/playwright-dev-page'];
+    if (withExample)
+      pomFiles.push('example.spec');
+    for (const file of pomFiles) {
+      // Playwright resolves the TypeScript imports, JavaScript ones need the extension.
+      const content = this._renderAsset(path.join('pom', `${file}.${assetExtension}`));
+      files.set(this._projectFile(path.join(answers.testDir, `${file}.${fileExtension}`)), answers.language === 'JavaScript' ? addImportExtension(content, `.${fileExtension}`) : content);
+    }
+  }
+
+  private _addCTExamples(files: Map<string, string>, commands: (Command & { phase: 'pre' | 'post' })[], answers: PromptOptions, ctPackageName: string) {
+    const framework = answers.framework!;
+    // react17 and vue2 share the example of their newer version.
+    const family = framework.replace(/\d+$/, '');
+    const isJsxFramework = family === 'react' || family === 'solid';
+    const componentExtension = isJsxFramework ? getFileExtensionCT(answers.language, framework) : family;
+    const args = { ctPackageName, componentExtension, typescript: answers.language === 'TypeScript' };
+    // Components are bundled by Vite and component imports in tests are rewritten by Playwright, both need ES modules.
+    const component = path.join(this._ctExamplesDir(answers), `Counter.${componentExtension}`);
+    files.set(this._projectFile(component), this._renderAsset(path.join('ct', family, `Counter.${componentExtension}`), args, new Map(), 'esm'));
+    const spec = this._ctExampleSpec(answers);
+    files.set(this._projectFile(spec), this._renderAsset(path.join('ct', `Counter.spec.${languageToFileExtension(answers.language)}${isJsxFramework ? 'x' : ''}`), args, new Map(), 'esm'));
+
+    // Records the screenshot right away when possible, otherwise the first test run does and fails.
+    if (answers.installPlaywrightBrowsers && detectCTFramework(this.projectDir)?.installed) {
+      commands.push({
+        name: 'Recording the screenshot of the example component',
+        command: this.packageManager.npx('playwright', `test -c playwright-ct.config.${this._fileExtension(answers.language)} --update-snapshots ${spec.split(path.sep).join('/')}`),
+        phase: 'post',
+        optional: true,
+      });
+    }
+  }
+
+  private _browsers(answers: PromptOptions): BrowserName[] {
+    return answers.browsers || this.options.browser || browserNames;
+  }
+
+  private _browsersToInstall(answers: PromptOptions): string[] {
+    const browsers = this._browsers(answers);
+    const channels = hasEndToEndTests(answers) ? answers.channels || [] : [];
+    // Without arguments, 'playwright install' downloads all the browsers, but none of the channels.
+    if (browsers.length === browserNames.length && !channels.length)
+      return [];
+    const registry = deviceRegistry(this.projectDir);
+    const deviceBrowsers = (answers.devices || []).map(device => registry[device]?.defaultBrowserType).filter(Boolean) as string[];
+    return [...new Set([...browsers, ...deviceBrowsers, ...channels])];
+  }
 
-    return { files, commands };
+  private _ctTestDir(answers: PromptOptions): string {
+    return answers.e2e ? answers.ctTestDir || 'src' : answers.testDir || '';
+  }
+
+  private _ctExamplesDir(answers: PromptOptions): string {
+    return this._ctTestDir(answers) || 'src';
+  }
+
+  private _runTestsCommand(answers: PromptOptions, testArgs: string, includeComponentTests: boolean): string {
+    if (!hasEndToEndTests(answers))
+      return this.packageManager.run('test-ct');
+    const command = this.packageManager.runPlaywrightTest(testArgs);
+    return answers.framework && includeComponentTests ? `${command} && ${this.packageManager.run('test-ct')}` : command;
+  }
+
+  // Component tests next to end-to-end tests, set up together or added to an existing end-to-end project.
+  private _hasBothSuites(answers: PromptOptions): boolean {
+    if (!answers.framework)
+      return false;
+    if (this.options.add === 'ct')
+      return fs.readdirSync(this.projectDir).some(file => /^playwright\.config\.[cm]?[jt]s$/.test(file));
+    return hasEndToEndTests(answers);
+  }
+
+  private _playwrightIgnores(answers: PromptOptions): Record<string, RegExp> {
+    if (!this._hasBothSuites(answers))
+      return playwrightIgnores;
+    return { ...playwrightIgnores, '/playwright-ct-report/': /^\/playwright-ct-report\/?$/m };
+  }
+
+  private _ctExampleSpec(answers: PromptOptions): string {
+    return path.join(this._ctExamplesDir(answers), `Counter.spec.${getFileExtensionCT(answers.language, answers.framework, this._moduleType(), this._packageModuleType())}`);
+  }
+
+  private _pinPlaywrightVersion(files: Map<string, string>) {
+    const output = execSync(this.packageManager.npx('playwright', '--version'), { cwd: this.rootDir, encoding: 'utf-8' });
+    const version = output.match(/Version (\S+)/)?.[1];
+    if (!version)
+      throw new Error(`Could not determine the installed Playwright version from '${output.trim()}'`);
+    for (const [file, content] of files)
+      files.set(file, content.replace(/{{playwrightVersion}}/g, version));
+  }
+
+  private _packageTag(): string {
+    if (this.options.next)
+      return '@next';
+    if (this.options.beta)
+      return '@beta';
+    return '';
   }
 
   private _hasDependency(pkg: string) {
     try {
-      const packageJSON = JSON.parse(fs.readFileSync(path.join(this.rootDir, 'package.json'), 'utf-8'));
+      const packageJSON = JSON.parse(fs.readFileSync(path.join(this.projectDir, 'package.json'), 'utf-8'));
       return packageJSON.dependencies?.[pkg] || packageJSON.devDependencies?.[pkg] || packageJSON.optionalDependencies?.[pkg];
     } catch (e) {
       return false;
     }
   }
 
-  private _patchGitIgnore() {
-    const gitIgnorePath = path.join(this.rootDir, '.gitignore');
+  // The workflow needs neither scripts nor ignores, the files of existing projects are left as they are.
+  private _patchesProjectFiles(): boolean {
+    return this.options.add !== 'gha';
+  }
+
+  private _patchGitIgnore(answers: PromptOptions, journal: Journal) {
+    const gitIgnorePath = path.join(this.projectDir, '.gitignore');
+    journal.recordFile(gitIgnorePath);
+    fs.writeFileSync(gitIgnorePath, this._patchedGitIgnore(answers));
+  }
+
+  private _patchedGitIgnore(answers: PromptOptions): string {
+    const gitIgnorePath = path.join(this.projectDir, '.gitignore');
     let gitIgnore = '';
     if (fs.existsSync(gitIgnorePath))
       gitIgnore = fs.readFileSync(gitIgnorePath, 'utf-8').trimEnd() + '\n';
 
     let thisIsTheFirstLineWeAreAdding = true;
-    const valuesToAdd = {
-      'node_modules/': /^node_modules\/?/m,
-      '/test-results/': /^\/?test-results\/?$/m,
-      '/playwright-report/': /^\/playwright-report\/?$/m,
-      '/blob-report/': /^\/blob-report\/?$/m,
-      '/playwright/.cache/': /^\/playwright\/\.cache\/?$/m,
-      '/playwright/.auth/': /^\/playwright\/\.auth\/?$/m,
-    };
-    Object.entries(valuesToAdd).forEach(([value, regex]) => {
+    Object.entries(this._playwrightIgnores(answers)).forEach(([value, regex]) => {
       if (!gitIgnore.match(regex)) {
         if (thisIsTheFirstLineWeAreAdding) {
           gitIgnore += `\n# Playwright\n`;
@@ -304,41 +792,158 @@ export class Generator {
         gitIgnore += `${value}\n`;
       }
     });
-    fs.writeFileSync(gitIgnorePath, gitIgnore);
+    return gitIgnore;
+  }
+
+  private _assetPath(asset: string): string {
+    // JavaScript assets are generated from the TypeScript ones unless there is a dedicated one.
+    const candidates = [asset, asset.replace(/\.js(x?)$/, '.ts$1')];
+    if (path.isAbsolute(asset))
+      return candidates.find(candidate => fs.existsSync(candidate)) || asset;
+    // Files of the template pack replace the built-in assets of the same name.
+    const dirs = this._templatePack ? [this._templatePack.dir, assetsDir] : [assetsDir];
+    for (const dir of dirs) {
+      for (const candidate of candidates) {
+        if (fs.existsSync(path.join(dir, candidate)))
+          return path.join(dir, candidate);
+      }
+    }
+    return path.join(assetsDir, asset);
+  }
+
+  private _renderAsset(asset: string, args: Record<string, TemplateValue> = {}, sections = new Map<string, SectionMode>(), moduleType = this._moduleType()): string {
+    const assetPath = this._assetPath(asset);
+    // Template packs may contain other {{ }} syntax, e.g. Vue templates, built-in assets have to render completely.
+    const strict = assetPath.startsWith(assetsDir + path.sep) && !assetPath.endsWith('.vue');
+    const content = executeTemplate(fs.readFileSync(assetPath, 'utf-8'), { ...this._templateArgs, ...args }, new Map([...this._templateSections, ...sections]), { strict });
+    return isTypeScriptFile(assetPath) && !isTypeScriptFile(asset) ? toJavaScript(content, moduleType, { jsx: assetPath.endsWith('.tsx') }) : content;
+  }
+
+  private _packageModuleType(): ModuleType {
+    try {
+      return JSON.parse(fs.readFileSync(path.join(this.projectDir, 'package.json'), 'utf-8')).type === 'module' ? 'esm' : 'cjs';
+    } catch (e) {
+      return 'cjs';
+    }
+  }
+
+  private _moduleType(): ModuleType {
+    return this.options.module || this._packageModuleType();
+  }
+
+  private _fileExtension(language: PromptOptions['language']) {
+    return languageToFileExtension(language, this._moduleType(), this._packageModuleType());
   }
 
-  private _readAsset(asset: string): string {
-    return fs.readFileSync(path.isAbsolute(asset) ? asset : path.join(assetsDir, asset), 'utf-8');
+  private async _patchPackageJSON(answers: PromptOptions, journal: Journal) {
+    const files = new Map<string, string>();
+    files.set('package.json', this._patchedPackageJSON(answers));
+    await createFiles(this.projectDir, files, true, false, 'prompt', journal);
   }
 
-  private async _patchPackageJSON(answers: PromptOptions) {
-    const packageJSON = JSON.parse(fs.readFileSync(path.join(this.rootDir, 'package.json'), 'utf-8'));
+  private _patchedPackageJSON(answers: PromptOptions, initialContent?: string): string {
+    const packageJSONPath = path.join(this.projectDir, 'package.json');
+    // In dry-run mode, package.json might not have been initialized yet.
+    const packageJSON = JSON.parse(initialContent ?? (fs.existsSync(packageJSONPath) ? fs.readFileSync(packageJSONPath, 'utf-8') : '{}'));
     if (!packageJSON.scripts)
       packageJSON.scripts = {};
     if (packageJSON.scripts['test']?.includes('no test specified'))
       delete packageJSON.scripts['test'];
 
-    const extension = languageToFileExtension(answers.language);
+    const extension = this._fileExtension(answers.language);
     if (answers.framework)
       packageJSON.scripts['test-ct'] = `playwright test -c playwright-ct.config.${extension}`;
+    if (answers.framework && hasEndToEndTests(answers))
+      packageJSON.scripts['test:e2e'] = 'playwright test';
+    if (this.options.docker) {
+      const composeFile = path.relative(this.projectDir, path.join(this.rootDir, 'docker-compose.yml')).split(path.sep).join('/');
+      packageJSON.scripts['test:docker'] = `docker compose${this.workspacePackage ? ` -f ${composeFile}` : ''} run --build --rm playwright`;
+    }
 
-    const files = new Map<string, string>();
-    files.set('package.json', JSON.stringify(packageJSON, null, 2) + '\n'); // NPM keeps a trailing new-line
-    await createFiles(this.rootDir, files, true, false);
+    return JSON.stringify(packageJSON, null, 2) + '\n'; // NPM keeps a trailing new-line
+  }
+
+  private _planFile(relativeFilePath: string, content: string): PlannedFile {
+    const absoluteFilePath = path.join(this.rootDir, relativeFilePath);
+    // The plan looks the same on every platform.
+    const planPath = relativeFilePath.split(path.sep).join('/');
+    if (!fs.existsSync(absoluteFilePath))
+      return { path: planPath, action: 'create', content };
+    const existing = fs.readFileSync(absoluteFilePath, 'utf-8');
+    if (existing === content)
+      return { path: planPath, action: 'unchanged', content };
+    return { path: planPath, action: 'modify', content, diff: createUnifiedDiff(existing, content, `a/${planPath}`, `b/${planPath}`) };
+  }
+
+  private _printDryRun(answers: PromptOptions, setupFiles: Map<string, string>, files: Map<string, string>, commands: (Command & { phase: 'pre' | 'post' })[]) {
+    const packageJSONPath = this._projectFile('package.json');
+    const plan = {
+      rootDir: this.rootDir,
+      packageManager: this.packageManager.name,
+      answers,
+      files: [...setupFiles, ...files].map(([relativeFilePath, content]) => this._planFile(relativeFilePath, content)),
+      commands: commands.map(({ name, command, phase }) => ({ name, command, phase })),
+      gitignore: this._patchesProjectFiles() ? this._planFile(this._projectFile('.gitignore'), this._patchedGitIgnore(answers)) : undefined,
+      packageJSON: this._patchesProjectFiles() ? this._planFile(packageJSONPath, this._patchedPackageJSON(answers, setupFiles.get(packageJSONPath))) : undefined,
+    };
+    if (this.options.dryRun === 'json') {
+      console.log(JSON.stringify(plan, null, 2));
+      return;
+    }
+
+    const printFile = (file: PlannedFile | undefined) => {
+      if (!file)
+        return;
+      if (file.action === 'unchanged') {
+        console.log(colors.gray(`Unchanged ${file.path}`));
+        return;
+      }
+      console.log(colors.bold(`${file.action === 'create' ? 'Create' : 'Modify'} ${file.path}`));
+      const lines = file.diff ? file.diff.split('\n') : file.content.trimEnd().split('\n').map(line => '+' + line);
+      for (const line of lines) {
+        if (line.startsWith('+') && !line.startsWith('+++'))
+          console.log(colors.green(`  ${line}`));
+        else if (line.startsWith('-') && !line.startsWith('---'))
+          console.log(colors.red(`  ${line}`));
+        else
+          console.log(colors.gray(`  ${line}`));
+      }
+    };
+
+    console.log(colors.yellow('Dry run, nothing will be written or executed.'));
+    if (this.options.docker)
+      console.log(colors.gray(`{{playwrightVersion}} stands for the version of @playwright/test${this._packageTag()} that gets installed.`));
+    for (const phase of ['pre', 'post'] as const) {
+      console.log('\n' + colors.bold(`Commands (${phase}):`));
+      for (const { name, command } of plan.commands.filter(c => c.phase === phase))
+        console.log(`  ${name} (${colors.cyan(command)})`);
+    }
+    console.log('\n' + colors.bold('Files:'));
+    for (const file of plan.files)
+      printFile(file);
+    printFile(plan.gitignore);
+    printFile(plan.packageJSON);
   }
 
   private _printEpilogue(answers: PromptOptions) {
-    console.log(colors.green('✔ Success!') + ' ' + colors.bold(`Created a Playwright Test project at ${this.rootDir}`));
+    console.log(colors.green('✔ Success!') + ' ' + colors.bold(`Created a Playwright Test project at ${this.projectDir}`));
     const pathToNavigate = path.relative(process.cwd(), this.rootDir);
     const prefix = pathToNavigate !== '' ? `  cd ${pathToNavigate}\n` : '';
-    const exampleSpecPath = path.join(answers.testDir, `example.spec.${languageToFileExtension(answers.language)}`);
-    const playwrightConfigPath = `playwright.config.${languageToFileExtension(answers.language)}`;
+    const exampleSpecPath = this._projectFile(path.join(answers.testDir, `example.spec.${this._fileExtension(answers.language)}`));
+    const fixturesPath = this._projectFile(path.join(answers.testDir, `fixtures.${this._fileExtension(answers.language)}`));
+    const pageObjects = this.options.structure === 'pom' ? `
+  - .${path.sep}${pathToNavigate ? path.join(pathToNavigate, fixturesPath) : fixturesPath} - Fixtures that provide the page objects` : '';
+    const playwrightConfigPath = this._projectFile(`playwright.config.${this._fileExtension(answers.language)}`);
+    const componentTests = answers.framework ? `
+  ${colors.cyan(this.packageManager.run('test-ct'))}
+    Runs the component tests.
+` : '';
     console.log(`
 Inside that directory, you can run several commands:
 
   ${colors.cyan(this.packageManager.runPlaywrightTest())}
     Runs the end-to-end tests.
-
+${componentTests}
   ${colors.cyan(this.packageManager.runPlaywrightTest('--ui'))}
     Starts the interactive UI mode.
 
@@ -359,7 +964,7 @@ We suggest that you begin by typing:
   ${colors.cyan(prefix + '  ' + this.packageManager.runPlaywrightTest())}
 
 And check out the following files:
-  - .${path.sep}${pathToNavigate ? path.join(pathToNavigate, exampleSpecPath) : exampleSpecPath} - Example end-to-end test
+  - .${path.sep}${pathToNavigate ? path.join(pathToNavigate, exampleSpecPath) : exampleSpecPath} - Example end-to-end test${pageObjects}
   - .${path.sep}${pathToNavigate ? path.join(pathToNavigate, playwrightConfigPath) : playwrightConfigPath} - Playwright Test configuration
 
 Visit https://playwright.dev/docs/intro for more information. ✨
@@ -367,26 +972,26 @@ Visit https://playwright.dev/docs/intro for more information. ✨
 Happy hacking! 🎭`);
   }
 
-  private _printEpilogueCT() {
-    console.log(colors.green('✔ Success!') + ' ' + colors.bold(`Created a Playwright Test project at ${this.rootDir}`));
+  private _printEpilogueCT(answers: PromptOptions) {
+    console.log(colors.green('✔ Success!') + ' ' + colors.bold(`Created a Playwright Test project at ${this.projectDir}`));
     console.log(`
 Inside that directory, you can run several commands:
 
-  ${colors.cyan(`${this.packageManager.cli} run test-ct`)}
+  ${colors.cyan(this.packageManager.run('test-ct'))}
     Runs the component tests.
 
-  ${colors.cyan(`${this.packageManager.cli} run test-ct -- --project=chromium`)}
+  ${colors.cyan(`${this.packageManager.run('test-ct')} -- --project=chromium`)}
     Runs the tests only on Desktop Chrome.
 
-  ${colors.cyan(`${this.packageManager.cli} run test-ct App.test.ts`)}
+  ${colors.cyan(`${this.packageManager.run('test-ct')} ${this.options.noExamples ? 'App.spec.ts' : path.basename(this._ctExampleSpec(answers))}`)}
     Runs the tests in the specific file.
 
-  ${colors.cyan(`${this.packageManager.cli} run test-ct -- --debug`)}
+  ${colors.cyan(`${this.packageManager.run('test-ct')} -- --debug`)}
     Runs the tests in debug mode.
 
 We suggest that you begin by typing:
 
-  ${colors.cyan(`${this.packageManager.cli} run test-ct`)}
+  ${colors.cyan(this.packageManager.run('test-ct'))}
 
 Visit https://playwright.dev/docs/intro for more information. ✨
 
@@ -0,0 +1,106 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { transform } from 'sucrase';
+
+export type ModuleType = 'esm' | 'cjs';
+
+function stripTypes(source: string, jsx: boolean): string {
+  const { code } = transform(source, { transforms: jsx ? ['typescript', 'jsx'] : ['typescript'], jsxRuntime: 'preserve', disableESTransforms: true });
+  // Sucrase keeps every line where it was, tidy up the lines it touched.
+  const sourceLines = source.split('\n');
+  const lines: string[] = [];
+  code.split('\n').forEach((line, index) => {
+    if (line === sourceLines[index]) {
+      lines.push(line);
+    } else if (line.trim()) {
+      // Removed modifiers like 'readonly' leave extra whitespace behind, keep the indentation of the source.
+      const indent = (sourceLines[index] ?? line).match(/^\s*/)![0];
+      lines.push(indent + line.trimStart()
+          .replace(/\s+/g, ' ')
+          .replace(/\s+([;,)\]])/g, '$1')
+          .replace(/\(\s+/g, '(')
+          .replace(/,\s*\}/g, ' }')
+          .trimEnd());
+    } else if (!sourceLines[index]?.trim()) {
+      // Keep blank lines of the source, drop the ones left behind by type-only declarations.
+      lines.push(line);
+    }
+  });
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').replace(/^\n+/, '');
+}
+
+function toRequire(specifiers: string): string {
+  return specifiers.split(',').map(specifier => specifier.trim()).filter(Boolean).map(specifier => specifier.replace(/^([\w$]+)\s+as\s+([\w$]+)$/, '$1: $2')).join(', ');
+}
+
+function toCommonJS(code: string): string {
+  const exported: string[] = [];
+  let hasDefaultExport = false;
+  code = code.replace(/^import\s+(?:([\w$]+)\s*,?\s*)?(?:\{([^}]*)\}|\*\s*as\s+([\w$]+))?\s*(?:from\s*)?(['"][^'"]+['"]);?/gm, (_, defaultName: string | undefined, named: string | undefined, namespace: string | undefined, specifier: string) => {
+    const statements: string[] = [];
+    if (defaultName)
+      statements.push(`const ${defaultName} = require(${specifier});`);
+    if (namespace)
+      statements.push(`const ${namespace} = require(${specifier});`);
+    if (named !== undefined && toRequire(named))
+      statements.push(`const { ${toRequire(named)} } = require(${specifier});`);
+    return statements.length ? statements.join('\n') : `require(${specifier});`;
+  });
+  code = code.replace(/^export\s+(?:\{([^}]*)\}\s*(?:from\s*(['"][^'"]+['"]))?;?\n?|(default)\s+|((?:async\s+)?function\*?|class|const|let|var)\s+([\w$]+))/gm, (_, named: string | undefined, specifier: string | undefined, isDefault: string | undefined, keyword: string | undefined, name: string | undefined) => {
+    if (isDefault) {
+      hasDefaultExport = true;
+      return 'module.exports = ';
+    }
+    if (keyword) {
+      exported.push(name!);
+      return `${keyword} ${name}`;
+    }
+    const specifiers = named!.split(',').map(specifier => specifier.trim()).filter(Boolean);
+    if (specifier) {
+      exported.push(...specifiers.map(specifier => specifier.replace(/^.*\s+as\s+/, '')));
+      return `const { ${toRequire(named!)} } = require(${specifier});\n`;
+    }
+    exported.push(...specifiers.map(specifier => specifier.replace(/^([\w$]+)\s+as\s+([\w$]+)$/, '$2: $1')));
+    return '';
+  });
+  if (!exported.length)
+    return code;
+  if (hasDefaultExport)
+    return code.trimEnd() + '\n' + exported.map(name => `module.exports.${name.replace(/:.*/, '')} = ${name.replace(/^.*:\s*/, '')};`).join('\n') + '\n';
+  return code.trimEnd() + `\n\nmodule.exports = { ${exported.join(', ')} };\n`;
+}
+
+/**
+ * Turns a TypeScript template into JavaScript. For CommonJS, imports and exports become require() and module.exports.
+ * JSX is kept as it is, pass `jsx` for .tsx sources.
+ */
+export function toJavaScript(source: string, moduleType: ModuleType, options: { jsx?: boolean } = {}): string {
+  const code = stripTypes(source, !!options.jsx);
+  return '// @ts-check\n' + (moduleType === 'cjs' ? toCommonJS(code) : code);
+}
+
+/**
+ * Appends the extension to relative imports that have none. Node.js needs it for ES modules and .cjs files,
+ * while the TypeScript sources import without one.
+ */
+export function addImportExtension(code: string, extension: string): string {
+  return code.replace(/(\bfrom\s*|^import\s*|\brequire\()(['"])(\.\.?\/[^'"]+)\2/gm, (match, prefix: string, quote: string, specifier: string) => {
+    if (/\.[cm]?[jt]sx?$/.test(specifier))
+      return match;
+    return `${prefix}${quote}${specifier}${extension}${quote}`;
+  });
+}
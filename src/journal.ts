@@ -0,0 +1,84 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import colors from 'ansi-colors';
+
+/**
+ * Remembers the state of every path before the generator touches it, so that a failed run can be undone.
+ */
+export class Journal {
+  private readonly _files = new Map<string, Buffer | undefined>();
+  private readonly _directories: string[] = [];
+
+  recordFile(filePath: string) {
+    if (this._files.has(filePath))
+      return;
+    this._recordMissingDirectories(path.dirname(filePath));
+    this._files.set(filePath, fs.existsSync(filePath) ? fs.readFileSync(filePath) : undefined);
+  }
+
+  recordDirectory(dirPath: string) {
+    this._recordMissingDirectories(dirPath);
+  }
+
+  private _recordMissingDirectories(dirPath: string) {
+    for (let dir = dirPath; !fs.existsSync(dir); dir = path.dirname(dir)) {
+      if (!this._directories.includes(dir))
+        this._directories.push(dir);
+      if (path.dirname(dir) === dir)
+        break;
+    }
+  }
+
+  addedDependencies(packageJSONPath: string): string[] {
+    if (!this._files.has(packageJSONPath) || !fs.existsSync(packageJSONPath))
+      return [];
+    const dependencyNames = (content: string | undefined) => {
+      const packageJSON = content ? JSON.parse(content) : {};
+      return new Set(['dependencies', 'devDependencies', 'optionalDependencies'].flatMap(key => Object.keys(packageJSON[key] || {})));
+    };
+    try {
+      const before = dependencyNames(this._files.get(packageJSONPath)?.toString('utf-8'));
+      return [...dependencyNames(fs.readFileSync(packageJSONPath, 'utf-8'))].filter(name => !before.has(name));
+    } catch (e) {
+      return [];
+    }
+  }
+
+  rollback() {
+    for (const [filePath, content] of [...this._files].reverse()) {
+      if (content === undefined) {
+        if (!fs.existsSync(filePath))
+          continue;
+        console.log(colors.gray(`Removing ${path.relative(process.cwd(), filePath)}.`));
+        fs.rmSync(filePath, { force: true });
+      } else if (!fs.existsSync(filePath) || !fs.readFileSync(filePath).equals(content)) {
+        console.log(colors.gray(`Restoring ${path.relative(process.cwd(), filePath)}.`));
+        fs.writeFileSync(filePath, content);
+      }
+    }
+    // Shallowest first, removing a directory removes everything that was created inside of it.
+    for (const dir of [...this._directories].sort((a, b) => a.length - b.length)) {
+      if (!fs.existsSync(dir))
+        continue;
+      console.log(colors.gray(`Removing ${path.relative(process.cwd(), dir) || '.'}${path.sep}.`));
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  }
+}
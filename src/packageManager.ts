@@ -17,10 +17,24 @@
 import path from 'path';
 import fs from 'fs';
 
+import colors from 'ansi-colors';
+
+/**
+ * A package inside of a workspace that commands should be scoped to, while they run from the workspace root.
+ */
+export type WorkspacePackage = {
+  name: string;
+  /** Posix path relative to the workspace root. */
+  path: string;
+};
+
 export interface PackageManager {
   cli: string;
   name: string
+  /** Value for the `cache` input of actions/setup-node, if it supports this package manager. */
+  ciCache?: 'npm' | 'yarn' | 'pnpm'
   init(): string
+  ciSetup(): string | undefined
   npx(command: string, args: string): string
   ci(): string
   i(): string
@@ -32,12 +46,21 @@ export interface PackageManager {
 class NPM implements PackageManager {
   name = 'NPM'
   cli = 'npm'
+  ciCache = 'npm' as const
+
+  constructor(private workspacePackage?: WorkspacePackage) {}
 
   init(): string {
     return 'npm init -y'
   }
 
+  ciSetup(): string | undefined {
+    return undefined
+  }
+
   npx(command: string, args: string): string {
+    if (this.workspacePackage)
+      return `npm exec -w ${this.workspacePackage.path} -- ${command} ${args}`
     return `npx ${command} ${args}`
   }
 
@@ -50,7 +73,7 @@ class NPM implements PackageManager {
   }
 
   installDevDependency(name: string): string {
-    return `npm install --save-dev ${name}`
+    return `npm install --save-dev ${this.workspacePackage ? `-w ${this.workspacePackage.path} ` : ''}${name}`
   }
 
   runPlaywrightTest(args: string): string {
@@ -58,20 +81,32 @@ class NPM implements PackageManager {
   }
 
   run(script: string): string {
-    return `npm run ${script}`;
+    return `npm run ${script}${this.workspacePackage ? ` -w ${this.workspacePackage.path}` : ''}`;
   }
 }
 
 class Yarn implements PackageManager {
   name = 'Yarn'
   cli = 'yarn'
+  ciCache = 'yarn' as const
   private workspace: boolean
   private classic = false;
+  private pnp: boolean
 
-  constructor(rootDir: string, version?: string) {
+  constructor(rootDir: string, version?: string, private workspacePackage?: WorkspacePackage) {
     this.workspace = this.isWorkspace(rootDir);
     if (version)
       this.classic = version.startsWith('0') || version.startsWith('1');
+    this.pnp = !this.classic && this.isPnP(rootDir);
+  }
+
+  private isPnP(rootDir: string) {
+    try {
+      const yarnrc = fs.readFileSync(path.join(rootDir, '.yarnrc.yml'), 'utf-8');
+      return /^nodeLinker:\s*["']?pnp["']?\s*$/m.test(yarnrc);
+    } catch (e) {
+      return false;
+    }
   }
 
   private isWorkspace(rootDir: string) {
@@ -87,19 +122,32 @@ class Yarn implements PackageManager {
     return 'yarn init -y'
   }
 
+  ciSetup(): string | undefined {
+    return 'corepack enable'
+  }
+
+  private prefix(): string {
+    return this.workspacePackage ? `yarn workspace ${this.workspacePackage.name}` : 'yarn'
+  }
+
   npx(command: string, args: string): string {
-    return `yarn ${command} ${args}`
+    // Plug'n'Play installs have no node_modules/.bin, binaries are resolved through `yarn run`.
+    if (this.pnp)
+      return `${this.prefix()} run ${command} ${args}`
+    return `${this.prefix()} ${command} ${args}`
   }
 
   ci(): string {
-    return 'npm install -g yarn && yarn'
+    return this.classic ? 'yarn install --frozen-lockfile' : 'yarn install --immutable'
   }
 
   i(): string {
-    return this.ci()
+    return 'yarn install'
   }
 
   installDevDependency(name: string): string {
+    if (this.workspacePackage)
+      return `${this.prefix()} add --dev ${name}`
     return `yarn add --dev ${(this.workspace && this.classic) ? '-W ' : ''}${name}`
   }
 
@@ -108,36 +156,47 @@ class Yarn implements PackageManager {
   }
 
   run(script: string): string {
-    return `yarn ${script}`;
+    return `${this.prefix()} ${script}`;
   }
 }
 
 class PNPM implements PackageManager {
   name = 'pnpm'
   cli = 'pnpm'
+  ciCache = 'pnpm' as const
   private workspace: boolean;
 
-  constructor(rootDir: string) {
+  constructor(rootDir: string, private workspacePackage?: WorkspacePackage) {
     this.workspace = fs.existsSync(path.resolve(rootDir, 'pnpm-workspace.yaml'));
   }
 
+  private prefix(): string {
+    return this.workspacePackage ? `pnpm --filter ${this.workspacePackage.name}` : 'pnpm'
+  }
+
   init(): string {
     return 'pnpm init'
   }
 
+  ciSetup(): string | undefined {
+    return 'corepack enable'
+  }
+
   npx(command: string, args: string): string {
-    return `pnpm exec ${command} ${args}`
+    return `${this.prefix()} exec ${command} ${args}`
   }
 
   ci(): string {
-    return 'npm install -g pnpm && pnpm install'
+    return 'pnpm install --frozen-lockfile'
   }
 
   i(): string {
-    return this.ci()
+    return 'pnpm install'
   }
 
   installDevDependency(name: string): string {
+    if (this.workspacePackage)
+      return `${this.prefix()} add --save-dev ${name}`
     return `pnpm add --save-dev ${this.workspace ? '-w ' : ''}${name}`
   }
 
@@ -146,19 +205,139 @@ class PNPM implements PackageManager {
   }
 
   run(script: string): string {
-    return `pnpm run ${script}`;
+    return `${this.prefix()} run ${script}`;
   }
 }
 
-export function determinePackageManager(rootDir: string): PackageManager {
+class Bun implements PackageManager {
+  name = 'Bun'
+  cli = 'bun'
+
+  constructor(private workspacePackage?: WorkspacePackage) {}
+
+  init(): string {
+    return 'bun init -y'
+  }
+
+  ciSetup(): string | undefined {
+    return 'npm install -g bun'
+  }
+
+  npx(command: string, args: string): string {
+    // bunx has no workspace flag, `bun run` resolves binaries of the package as well.
+    if (this.workspacePackage)
+      return `bun run --cwd ${this.workspacePackage.path} ${command} ${args}`
+    return `bunx ${command} ${args}`
+  }
+
+  ci(): string {
+    return 'bun install --frozen-lockfile'
+  }
+
+  i(): string {
+    return 'bun install'
+  }
+
+  installDevDependency(name: string): string {
+    return `bun add --dev ${this.workspacePackage ? `--cwd ${this.workspacePackage.path} ` : ''}${name}`
+  }
+
+  runPlaywrightTest(args: string): string {
+    return this.npx('playwright', `test${args ? (' ' + args) : ''}`);
+  }
+
+  run(script: string): string {
+    return `bun run ${this.workspacePackage ? `--cwd ${this.workspacePackage.path} ` : ''}${script}`;
+  }
+}
+
+const packageManagerNames = ['npm', 'yarn', 'pnpm', 'bun'] as const;
+type PackageManagerName = typeof packageManagerNames[number];
+
+type Detection = {
+  name: PackageManagerName;
+  version?: string;
+  source: string;
+};
+
+function parsePackageManagerSpec(spec: string, source: string): Detection {
+  // Corepack format: <name>@<version>[+<hash>], e.g. pnpm@9.1.0+sha512.abc
+  const match = spec.trim().match(/^([^@+]+)(?:@([^+]+))?/);
+  const name = match?.[1] as PackageManagerName | undefined;
+  if (!name || !packageManagerNames.includes(name))
+    throw new Error(`Unsupported package manager '${spec}' in ${source}, expected one of: ${packageManagerNames.join(', ')}`);
+  return { name, version: match?.[2], source };
+}
+
+function detectFromPackageJSON(rootDir: string): Detection | undefined {
+  let packageManager: unknown;
+  try {
+    packageManager = JSON.parse(fs.readFileSync(path.join(rootDir, 'package.json'), 'utf-8')).packageManager;
+  } catch (e) {
+    return;
+  }
+  if (typeof packageManager === 'string')
+    return parsePackageManagerSpec(packageManager, `the "packageManager" field in package.json`);
+}
+
+function detectFromLockfile(rootDir: string): Detection | undefined {
+  const lockfiles: [string, PackageManagerName][] = [
+    ['pnpm-lock.yaml', 'pnpm'],
+    ['yarn.lock', 'yarn'],
+    ['package-lock.json', 'npm'],
+    ['npm-shrinkwrap.json', 'npm'],
+    ['bun.lock', 'bun'],
+    ['bun.lockb', 'bun'],
+  ];
+  for (const [lockfile, name] of lockfiles) {
+    const lockfilePath = path.join(rootDir, lockfile);
+    if (!fs.existsSync(lockfilePath))
+      continue;
+    // Yarn classic lockfiles start with a '# yarn lockfile v1' header, Berry ones have a __metadata entry.
+    const version = name === 'yarn' && fs.readFileSync(lockfilePath, 'utf-8').includes('# yarn lockfile v1') ? '1' : undefined;
+    return { name, version, source: lockfile };
+  }
+}
+
+function detectFromUserAgent(): Detection | undefined {
   const userAgent = process.env.npm_config_user_agent;
-  if (userAgent) {
-    if (userAgent.includes('yarn')) {
-      const yarnVersion = userAgent.match(/yarn\/(\d+\.\d+\.\d+)/)?.[1];
-      return new Yarn(rootDir, yarnVersion);
-    }
-    if (userAgent.includes('pnpm'))
-      return new PNPM(rootDir);
+  if (!userAgent)
+    return;
+  const source = 'the user agent';
+  if (userAgent.includes('yarn'))
+    return { name: 'yarn', version: userAgent.match(/yarn\/(\d+\.\d+\.\d+)/)?.[1], source };
+  if (userAgent.includes('pnpm'))
+    return { name: 'pnpm', source };
+  if (userAgent.startsWith('bun/'))
+    return { name: 'bun', source };
+  if (userAgent.startsWith('npm/'))
+    return { name: 'npm', source };
+}
+
+/**
+ * Detects the package manager, in order of precedence: the --package-manager flag, the "packageManager" field
+ * in package.json, the lockfile, and finally the user agent of the package manager running create-playwright.
+ */
+export function determinePackageManager(rootDir: string, preferred?: string, workspacePackage?: WorkspacePackage): PackageManager {
+  const detections = [
+    preferred ? parsePackageManagerSpec(preferred, '--package-manager') : undefined,
+    detectFromPackageJSON(rootDir),
+    detectFromLockfile(rootDir),
+    detectFromUserAgent(),
+  ].filter(Boolean) as Detection[];
+  const chosen = detections[0] || { name: 'npm', source: 'the default' };
+  const conflicting = detections.filter(detection => detection.name !== chosen.name);
+  if (conflicting.length)
+    console.warn(colors.yellow(`Using ${chosen.name} from ${chosen.source}, which takes precedence over ${conflicting.map(detection => `${detection.name} from ${detection.source}`).join(' and ')}.`));
+  const version = detections.find(detection => detection.name === chosen.name && detection.version)?.version;
+  switch (chosen.name) {
+    case 'yarn':
+      return new Yarn(rootDir, version, workspacePackage);
+    case 'pnpm':
+      return new PNPM(rootDir, workspacePackage);
+    case 'bun':
+      return new Bun(workspacePackage);
+    case 'npm':
+      return new NPM(workspacePackage);
   }
-  return new NPM();
 }
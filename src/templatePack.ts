@@ -0,0 +1,126 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+export const templateManifestFile = 'create-playwright.template.json';
+
+export type TemplatePrompt = {
+  type: 'input' | 'confirm' | 'select';
+  name: string;
+  message: string;
+  initial?: string | boolean;
+  choices?: string[];
+};
+
+export type TemplateManifest = {
+  /** Extra files to create, destination relative to the project directory -> source relative to the pack. */
+  files: Record<string, string>;
+  variables: Record<string, string>;
+  /** Answers of confirm prompts toggle the section of the same name, other answers become variables. */
+  prompts: TemplatePrompt[];
+};
+
+export type TemplatePack = {
+  dir: string;
+  manifest: TemplateManifest;
+  dispose(): void;
+};
+
+function isGitURL(spec: string): boolean {
+  return /^(git\+|git@|git:\/\/|github:)/.test(spec) || /\.git(#.*)?$/.test(spec);
+}
+
+function cloneGitRepository(spec: string, tmpDir: string): string {
+  const [url, ref] = spec.replace(/^git\+/, '').replace(/^github:(.*?)(#|$)/, 'https://github.com/$1.git$2').split('#');
+  const dir = path.join(tmpDir, 'template');
+  // Passed as arguments, the URL and the ref come from the user and must not reach a shell.
+  execFileSync('git', ['clone', '--quiet', '--depth', '1', ...(ref ? [`--branch=${ref}`] : []), '--', url!, dir], { stdio: 'inherit' });
+  return dir;
+}
+
+// npm is a .cmd script on Windows, which only runs in a shell, its JavaScript entry point next to node does not need one.
+function npmCommand(args: string[]): [string, string[]] {
+  if (process.platform !== 'win32')
+    return ['npm', args];
+  return [process.execPath, [path.join(path.dirname(process.execPath), 'node_modules', 'npm', 'bin', 'npm-cli.js'), ...args]];
+}
+
+function unpackNpmPackage(spec: string, tmpDir: string): string {
+  const [command, args] = npmCommand(['pack', '--silent', '--pack-destination', tmpDir, '--', spec]);
+  const tarball = execFileSync(command, args, { encoding: 'utf-8', cwd: tmpDir }).trim().split('\n').pop()!;
+  execFileSync('tar', ['-xzf', path.join(tmpDir, tarball), '-C', tmpDir]);
+  return path.join(tmpDir, 'package');
+}
+
+export function isOutside(dir: string, file: string): boolean {
+  const relative = path.relative(dir, path.resolve(dir, file));
+  return relative === '..' || relative.startsWith('..' + path.sep) || path.isAbsolute(relative);
+}
+
+function readManifest(dir: string): TemplateManifest {
+  const manifestPath = path.join(dir, templateManifestFile);
+  const manifest = { files: {}, variables: {}, prompts: [], ...(fs.existsSync(manifestPath) ? JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) : {}) };
+  const errors: string[] = [];
+  for (const key of Object.keys(manifest)) {
+    if (!['files', 'variables', 'prompts'].includes(key))
+      errors.push(`unknown key "${key}"`);
+  }
+  // Packs are third-party code, they must neither read nor write files outside of themselves and the project.
+  for (const [destination, source] of Object.entries(manifest.files)) {
+    if (path.isAbsolute(destination) || isOutside(dir, destination))
+      errors.push(`destination "${destination}" is outside of the project`);
+    if (typeof source === 'string' && isOutside(dir, source))
+      errors.push(`file "${source}" for "${destination}" is outside of the template pack`);
+    else if (typeof source !== 'string' || !fs.existsSync(path.join(dir, source)))
+      errors.push(`file "${source}" for "${destination}" does not exist`);
+  }
+  for (const [name, value] of Object.entries(manifest.variables)) {
+    if (typeof value !== 'string')
+      errors.push(`variable "${name}" must be a string`);
+  }
+  for (const prompt of manifest.prompts as TemplatePrompt[]) {
+    if (!prompt.name || !prompt.message || !['input', 'confirm', 'select'].includes(prompt.type))
+      errors.push(`prompt ${JSON.stringify(prompt)} needs a "name", a "message" and a "type" of input, confirm or select`);
+    else if (prompt.type === 'select' && !prompt.choices?.length)
+      errors.push(`select prompt "${prompt.name}" needs "choices"`);
+  }
+  if (errors.length)
+    throw new Error(`Invalid ${manifestPath}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  return manifest;
+}
+
+/**
+ * Resolves a template pack from a local directory, a git URL or an npm package specifier.
+ */
+export function resolveTemplatePack(spec: string): TemplatePack {
+  const localDir = path.resolve(spec);
+  if (fs.existsSync(localDir) && fs.statSync(localDir).isDirectory())
+    return { dir: localDir, manifest: readManifest(localDir), dispose: () => {} };
+
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'create-playwright-template-'));
+  const dispose = () => fs.rmSync(tmpDir, { recursive: true, force: true });
+  try {
+    const dir = isGitURL(spec) ? cloneGitRepository(spec, tmpDir) : unpackNpmPackage(spec, tmpDir);
+    return { dir, manifest: readManifest(dir), dispose };
+  } catch (error) {
+    dispose();
+    throw new Error(`Could not resolve template '${spec}': ${error.message}`);
+  }
+}
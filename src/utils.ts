@@ -15,95 +15,280 @@
  */
 
 import fs from 'fs';
-import { execSync } from 'child_process';
+import { execSync, spawnSync } from 'child_process';
+import os from 'os';
 import path from 'path';
 
 import { prompt } from 'enquirer';
 import colors from 'ansi-colors';
 import { PromptOptions } from './generator';
+import type { ModuleType } from './javascript';
+import type { Journal } from './journal';
 
 export type Command = {
   command: string;
   name: string;
+  /** Failing optional commands only print a warning. */
+  optional?: boolean;
 };
 
 export function executeCommands(cwd: string, commands: Command[]) {
-  for (const { command, name } of commands) {
+  for (const { command, name, optional } of commands) {
     console.log(`${name} (${command})…`);
-    execSync(command, {
-      stdio: 'inherit',
-      cwd,
-    });
+    try {
+      execSync(command, {
+        stdio: 'inherit',
+        cwd,
+      });
+    } catch (error) {
+      if (!optional)
+        throw error;
+      console.warn(colors.yellow(`${name} failed, you can retry with '${command}'.`));
+    }
   }
 }
 
-export async function createFiles(rootDir: string, files: Map<string, string>, force: boolean, quiet: boolean) {
+export type ConflictStrategy = 'prompt' | 'skip' | 'overwrite' | 'backup';
+
+export async function createFiles(rootDir: string, files: Map<string, string>, force: boolean, quiet: boolean, onConflict: ConflictStrategy = 'prompt', journal?: Journal) {
   const existingFiles = [...files.keys()].filter(f => fs.existsSync(path.join(rootDir, f)));
-  if (quiet && !force && existingFiles.length) {
+  if (quiet && !force && onConflict === 'prompt' && existingFiles.length) {
     console.log('These files already exist:');
     for (const f of existingFiles)
-      console.log(`  ${path.relative(process.cwd(), f)}`);
-    console.log('If you want to override them, run again with --force.');
-    process.exit(1);
-    return;
+      console.log(`  ${path.relative(process.cwd(), path.join(rootDir, f))}`);
+    throw new Error('If you want to override them, run again with --on-conflict=overwrite (or skip, backup).');
   }
 
   for (const [relativeFilePath, value] of files) {
     const absoluteFilePath = path.join(rootDir, relativeFilePath);
-    if (existingFiles.includes(absoluteFilePath) && !force) {
-      const { override } = await prompt<{ override: boolean }>({
-        type: 'confirm',
-        name: 'override',
-        message: `${absoluteFilePath} already exists. Override it?`,
-        initial: false
-      });
-      if (!override)
-        continue;
+    let content: string | undefined = value;
+    if (existingFiles.includes(relativeFilePath) && !force) {
+      journal?.recordFile(absoluteFilePath + '.orig');
+      content = await resolveConflict(absoluteFilePath, value, onConflict);
+    }
+    if (content === undefined) {
+      console.log(colors.gray(`Keeping ${path.relative(process.cwd(), absoluteFilePath)}.`));
+      continue;
     }
     console.log(colors.gray(`Writing ${path.relative(process.cwd(), absoluteFilePath)}.`));
+    journal?.recordFile(absoluteFilePath);
     fs.mkdirSync(path.dirname(absoluteFilePath), { recursive: true });
-    fs.writeFileSync(absoluteFilePath, value, 'utf-8');
+    fs.writeFileSync(absoluteFilePath, content, 'utf-8');
   }
 }
 
-export function executeTemplate(input: string, args: Record<string, string>, sections: Map<string, 'show' | 'hide' | 'comment'>): string {
-  for (const key in args)
-    input = input.replace(new RegExp('{{' + key + '}}', 'g'), args[key]!);
-  const result: string[] = [];
-  let mode: 'show' | 'hide' | 'comment' = 'show';
-  let indent = '';
-  for (const line of input.split('\n')) {
-    const match = line.match(/(\s*)\/\/--begin-(.*)/);
-    if (match) {
-      mode = sections.get(match[2]!) || 'comment';
-      indent = match[1]!;
-      continue;
+/**
+ * Returns the content to write for a file that already exists, or undefined to keep the existing file.
+ */
+async function resolveConflict(absoluteFilePath: string, value: string, onConflict: ConflictStrategy): Promise<string | undefined> {
+  const relativePath = path.relative(process.cwd(), absoluteFilePath);
+  const existing = fs.readFileSync(absoluteFilePath, 'utf-8');
+  let strategy: ConflictStrategy | 'diff' | 'merge' = onConflict;
+  while (strategy === 'prompt' || strategy === 'diff') {
+    if (strategy === 'diff')
+      console.log(createUnifiedDiff(existing, value, `${relativePath} (existing)`, `${relativePath} (template)`));
+    ({ strategy } = await prompt<{ strategy: ConflictStrategy | 'diff' | 'merge' }>({
+      type: 'select',
+      name: 'strategy',
+      message: `${relativePath} already exists. What do you want to do?`,
+      choices: [
+        { name: 'diff', message: 'Show the differences' },
+        { name: 'skip', message: 'Keep mine' },
+        { name: 'overwrite', message: 'Take theirs' },
+        { name: 'backup', message: `Back up mine to ${path.basename(absoluteFilePath)}.orig and take theirs` },
+        { name: 'merge', message: 'Merge in $EDITOR' },
+      ],
+      initial: 1,
+    }));
+  }
+  switch (strategy) {
+    case 'skip':
+      return undefined;
+    case 'overwrite':
+      return value;
+    case 'backup':
+      console.log(colors.gray(`Backing up ${relativePath} to ${relativePath}.orig.`));
+      fs.copyFileSync(absoluteFilePath, absoluteFilePath + '.orig');
+      return value;
+    case 'merge':
+      return mergeInEditor(absoluteFilePath, existing, value);
+  }
+}
+
+function mergeInEditor(absoluteFilePath: string, existing: string, value: string): string {
+  const mergeFile = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'create-playwright-')), path.basename(absoluteFilePath));
+  fs.writeFileSync(mergeFile, createConflictMarkers(existing, value), 'utf-8');
+  const editor = process.env.VISUAL || process.env.EDITOR || (process.platform === 'win32' ? 'notepad' : 'vi');
+  const { status } = spawnSync(`${editor} "${mergeFile}"`, { stdio: 'inherit', shell: true });
+  if (status !== 0)
+    throw new Error(`Editor '${editor}' exited with code ${status}, aborting the merge of ${absoluteFilePath}`);
+  const merged = fs.readFileSync(mergeFile, 'utf-8');
+  fs.rmSync(path.dirname(mergeFile), { recursive: true, force: true });
+  if (/^(<{7}|>{7}) /m.test(merged))
+    console.log(colors.yellow(`${path.relative(process.cwd(), absoluteFilePath)} still contains conflict markers.`));
+  return merged;
+}
+
+export type TemplateValue = string | number | boolean | TemplateValue[] | { [key: string]: TemplateValue };
+export type SectionMode = 'show' | 'hide' | 'comment';
+
+type CommentStyle = '//' | '#' | '<!--';
+
+type TemplateNode =
+  | { type: 'text', line: string, lineNumber: number }
+  | { type: 'section', name: string, indent: string, style: CommentStyle, children: TemplateNode[] }
+  | { type: 'if', condition: string, negate: boolean, then: TemplateNode[], else: TemplateNode[], lineNumber: number }
+  | { type: 'each', item: string, list: string, children: TemplateNode[], lineNumber: number };
+
+// Directives sit on their own line, behind '//--', '#--' or inside '<!-- -->', e.g. '  #--if installGitHubActions'.
+const directiveRegex = /^(\s*)(\/\/--|#--|<!--)\s*(begin-[\w-]+?|end-[\w-]+?|if\s+!?[\w.]+|else|each\s+\w+\s+in\s+[\w.]+)\s*(?:-->)?\s*$/;
+const placeholderRegex = /(?<!\$)\{\{\s*([\w.]+)\s*\}\}/g;
+
+function parseTemplate(input: string, strict: boolean): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: { node?: Exclude<TemplateNode, { type: 'text' }>, children: TemplateNode[], lineNumber: number }[] = [{ children: root, lineNumber: 0 }];
+  const fail = (lineNumber: number, message: string) => {
+    throw new Error(`Template error on line ${lineNumber}: ${message}`);
+  };
+  input.split('\n').forEach((line, index) => {
+    const lineNumber = index + 1;
+    const top = stack[stack.length - 1]!;
+    const match = line.match(directiveRegex);
+    if (!match) {
+      top.children.push({ type: 'text', line, lineNumber });
+      return;
     }
-    if (line.trim().startsWith('//--end-')) {
-      mode = 'show';
-      continue;
+    const [, indent, marker, directive] = match as [string, string, string, string];
+    const style = marker.replace(/--$/, '') as CommentStyle;
+    if (directive.startsWith('begin-')) {
+      const node: TemplateNode = { type: 'section', name: directive.slice('begin-'.length), indent, style, children: [] };
+      top.children.push(node);
+      stack.push({ node, children: node.children, lineNumber });
+    } else if (directive.startsWith('if')) {
+      const condition = directive.replace(/^if\s+/, '');
+      const node: TemplateNode = { type: 'if', condition: condition.replace(/^!/, ''), negate: condition.startsWith('!'), then: [], else: [], lineNumber };
+      top.children.push(node);
+      stack.push({ node, children: node.then, lineNumber });
+    } else if (directive.startsWith('each')) {
+      const [, item, list] = directive.match(/^each\s+(\w+)\s+in\s+([\w.]+)$/)!;
+      const node: TemplateNode = { type: 'each', item: item!, list: list!, children: [], lineNumber };
+      top.children.push(node);
+      stack.push({ node, children: node.children, lineNumber });
+    } else if (directive === 'else') {
+      if (top.node?.type !== 'if' || top.children === top.node.else) {
+        if (strict)
+          fail(lineNumber, `'else' without 'if'`);
+        return;
+      }
+      top.children = top.node.else;
+    } else {
+      const name = directive.slice('end-'.length);
+      const expected = top.node?.type === 'section' ? top.node.name : top.node?.type;
+      if (!top.node || (strict && name !== expected)) {
+        if (strict)
+          fail(lineNumber, expected ? `'end-${name}' does not close 'begin-${expected}' from line ${top.lineNumber}` : `'end-${name}' without a matching begin`);
+        return;
+      }
+      stack.pop();
     }
-    if (mode === 'show')
-      result.push(line);
-    else if (mode === 'comment')
-      result.push(line.slice(0, indent.length) + '// ' + line.slice(indent.length));
-  }
+  });
+  if (strict && stack.length > 1)
+    fail(stack[stack.length - 1]!.lineNumber, 'section is never closed');
+  return root;
+}
+
+function lookup(scope: Record<string, TemplateValue>, name: string): TemplateValue | undefined {
+  let value: TemplateValue | undefined = scope;
+  for (const key of name.split('.'))
+    value = value !== undefined && typeof value === 'object' && !Array.isArray(value) ? value[key] : undefined;
+  return value;
+}
+
+function isTruthy(value: TemplateValue | undefined): boolean {
+  return Array.isArray(value) ? value.length > 0 : !!value;
+}
+
+function commentLine(line: string, indent: string, style: CommentStyle): string {
+  if (style === '<!--')
+    return line.slice(0, indent.length) + '<!-- ' + line.slice(indent.length) + ' -->';
+  return line.slice(0, indent.length) + style + ' ' + line.slice(indent.length);
+}
+
+/**
+ * Renders a template:
+ * - `{{name}}` and `{{item.field}}` placeholders are replaced by the arguments, GitHub Actions `${{ }}` expressions are left alone.
+ * - `begin-<name>` / `end-<name>` sections are shown, hidden or commented out according to `sections`.
+ * - `if <name>` / `if !<name>` / `else` / `end-if` test an argument, empty strings and lists are false.
+ * - `each <item> in <list>` / `end-each` repeat the lines for every element of a list argument.
+ * Directives can be nested and written as `//--begin-x`, `#--begin-x` or `<!--begin-x-->`.
+ * In strict mode, undefined placeholders, unknown sections and unbalanced directives throw instead of being left as is.
+ */
+export function executeTemplate(input: string, args: Record<string, TemplateValue>, sections: Map<string, SectionMode>, options: { strict?: boolean } = {}): string {
+  const strict = !!options.strict;
+  const result: string[] = [];
+  const render = (nodes: TemplateNode[], scope: Record<string, TemplateValue>, mode: SectionMode, comment?: { indent: string, style: CommentStyle }) => {
+    for (const node of nodes) {
+      if (node.type === 'text') {
+        if (mode === 'hide')
+          continue;
+        const line = node.line.replace(placeholderRegex, (placeholder, name: string) => {
+          const value = lookup(scope, name);
+          if (value === undefined) {
+            if (strict)
+              throw new Error(`Template error on line ${node.lineNumber}: undefined variable '${name}'`);
+            return placeholder;
+          }
+          return Array.isArray(value) ? value.join(', ') : String(value);
+        });
+        result.push(mode === 'comment' ? commentLine(line, comment!.indent, comment!.style) : line);
+      } else if (node.type === 'section') {
+        const sectionMode = sections.get(node.name);
+        if (!sectionMode && strict)
+          throw new Error(`Template error: unknown section '${node.name}'`);
+        // Hidden wins over commented, and a commented section comments everything inside of it only once.
+        if (mode === 'hide' || sectionMode === 'hide')
+          render(node.children, scope, 'hide');
+        else if (mode === 'comment')
+          render(node.children, scope, mode, comment);
+        else if (sectionMode === 'show')
+          render(node.children, scope, 'show');
+        else
+          render(node.children, scope, 'comment', { indent: node.indent, style: node.style });
+      } else if (node.type === 'if') {
+        const value = lookup(scope, node.condition);
+        if (value === undefined && strict)
+          throw new Error(`Template error on line ${node.lineNumber}: undefined variable '${node.condition}'`);
+        render(isTruthy(value) !== node.negate ? node.then : node.else, scope, mode, comment);
+      } else {
+        const list = lookup(scope, node.list);
+        if (!Array.isArray(list) && (strict || list !== undefined))
+          throw new Error(`Template error on line ${node.lineNumber}: '${node.list}' is not a list`);
+        for (const item of list || [])
+          render(node.children, { ...scope, [node.item]: item }, mode, comment);
+      }
+    }
+  };
+  render(parseTemplate(input, strict), args, 'show');
   return result.join('\n');
 }
 
-export function getFileExtensionCT(language: PromptOptions['language'], framework: PromptOptions['framework']) {
+export function getFileExtensionCT(language: PromptOptions['language'], framework: PromptOptions['framework'], moduleType?: ModuleType, packageModuleType?: ModuleType) {
   const isJsxFramework = framework === 'solid' || framework === 'react' || framework === 'react17';
   if (isJsxFramework && language === 'JavaScript')
     return 'jsx';
   else if (isJsxFramework && language === 'TypeScript')
     return 'tsx';
-  else if (language === 'TypeScript')
-    return 'ts';
-  return 'js';
+  return languageToFileExtension(language, moduleType, packageModuleType);
 }
 
-export function languageToFileExtension(language: PromptOptions['language']): 'js' | 'ts' {
-  return language === 'JavaScript' ? 'js' : 'ts';
+/**
+ * When the module system differs from the "type" of the package, files need the explicit .mjs / .cjs (.mts / .cts) extension.
+ */
+export function languageToFileExtension(language: PromptOptions['language'], moduleType?: ModuleType, packageModuleType: ModuleType = 'cjs'): 'js' | 'ts' | 'mjs' | 'mts' | 'cjs' | 'cts' {
+  const extension = language === 'JavaScript' ? 'js' : 'ts';
+  if (!moduleType || moduleType === packageModuleType)
+    return extension;
+  return moduleType === 'esm' ? `m${extension}` : `c${extension}`;
 }
 
 export async function readDirRecursively(dir: string): Promise<string[]> {
@@ -114,3 +299,85 @@ export async function readDirRecursively(dir: string): Promise<string[]> {
   }));
   return files.flat();
 }
+
+type DiffLine = { type: ' ' | '-' | '+', text: string, oldBefore: number, newBefore: number };
+
+function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = oldText.split('\n');
+  const newLines = newText.split('\n');
+
+  // Longest common subsequence table, inputs are small config files.
+  const lcs: number[][] = Array.from({ length: oldLines.length + 1 }, () => new Array(newLines.length + 1).fill(0));
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--)
+      lcs[i]![j] = oldLines[i] === newLines[j] ? lcs[i + 1]![j + 1]! + 1 : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+  }
+
+  // Each line remembers how many old/new lines precede it, to compute hunk headers.
+  const lines: DiffLine[] = [];
+  let i = 0, j = 0;
+  while (i < oldLines.length || j < newLines.length) {
+    const line = { oldBefore: i, newBefore: j };
+    if (i < oldLines.length && j < newLines.length && oldLines[i] === newLines[j]) {
+      lines.push({ ...line, type: ' ', text: newLines[j]! });
+      i++;
+      j++;
+    } else if (i < oldLines.length && (j >= newLines.length || lcs[i + 1]![j]! >= lcs[i]![j + 1]!)) {
+      lines.push({ ...line, type: '-', text: oldLines[i++]! });
+    } else {
+      lines.push({ ...line, type: '+', text: newLines[j++]! });
+    }
+  }
+  return lines;
+}
+
+export function createUnifiedDiff(oldText: string, newText: string, oldName: string, newName: string): string {
+  const lines = diffLines(oldText, newText);
+  const context = 3;
+  const result = [`--- ${oldName}`, `+++ ${newName}`];
+  let index = 0;
+  while (true) {
+    const firstChange = lines.findIndex((line, k) => k >= index && line.type !== ' ');
+    if (firstChange === -1)
+      break;
+    let lastChange = firstChange;
+    for (let k = firstChange; k < lines.length && k <= lastChange + context * 2; k++) {
+      if (lines[k]!.type !== ' ')
+        lastChange = k;
+    }
+    const hunk = lines.slice(Math.max(index, firstChange - context), Math.min(lines.length, lastChange + context + 1));
+    const oldCount = hunk.filter(line => line.type !== '+').length;
+    const newCount = hunk.filter(line => line.type !== '-').length;
+    const oldStart = hunk[0]!.oldBefore + (oldCount ? 1 : 0);
+    const newStart = hunk[0]!.newBefore + (newCount ? 1 : 0);
+    result.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const line of hunk)
+      result.push(line.type + line.text);
+    index = lastChange + context + 1;
+  }
+  return result.join('\n');
+}
+
+function createConflictMarkers(existing: string, incoming: string): string {
+  const result: string[] = [];
+  let ours: string[] = [];
+  let theirs: string[] = [];
+  const flush = () => {
+    if (ours.length || theirs.length)
+      result.push('<<<<<<< existing', ...ours, '=======', ...theirs, '>>>>>>> template');
+    ours = [];
+    theirs = [];
+  };
+  for (const line of diffLines(existing, incoming)) {
+    if (line.type === '-') {
+      ours.push(line.text);
+    } else if (line.type === '+') {
+      theirs.push(line.text);
+    } else {
+      flush();
+      result.push(line.text);
+    }
+  }
+  flush();
+  return result.join('\n');
+}
@@ -0,0 +1,104 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import type { WorkspacePackage } from './packageManager';
+
+export function resolveWorkspacePackage(rootDir: string, packagePath: string): WorkspacePackage {
+  const relativePath = path.relative(rootDir, path.resolve(rootDir, packagePath)).split(path.sep).join('/');
+  if (!relativePath || relativePath.startsWith('..'))
+    throw new Error(`Workspace package '${packagePath}' has to be inside of ${rootDir}`);
+  let name = path.posix.basename(relativePath);
+  try {
+    name = JSON.parse(fs.readFileSync(path.join(rootDir, relativePath, 'package.json'), 'utf-8')).name || name;
+  } catch (e) {
+  }
+  return { name, path: relativePath };
+}
+
+function matchesWorkspaceGlob(glob: string, packagePath: string): boolean {
+  const normalized = glob.replace(/^\.\//, '').replace(/\/$/, '');
+  const pattern = normalized.split('/').map(segment => {
+    if (segment === '**')
+      return '.*';
+    return segment.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*');
+  }).join('/');
+  return new RegExp(`^${pattern}$`).test(packagePath);
+}
+
+function registerInPnpmWorkspace(content: string, packagePath: string): string | undefined {
+  const lines = content.trim() ? content.trimEnd().split('\n') : [];
+  const packagesLine = lines.findIndex(line => /^packages:\s*$/.test(line));
+  if (packagesLine === -1)
+    return [...lines, 'packages:', `  - '${packagePath}'`].join('\n') + '\n';
+  let lastItem = packagesLine;
+  for (let i = packagesLine + 1; i < lines.length; i++) {
+    const item = lines[i]!.match(/^\s+-\s*['"]?([^'"#]+?)['"]?\s*(#.*)?$/);
+    if (!item) {
+      if (lines[i]!.trim() && !lines[i]!.trim().startsWith('#'))
+        break;
+      continue;
+    }
+    if (!item[1]!.startsWith('!') && matchesWorkspaceGlob(item[1]!, packagePath))
+      return;
+    lastItem = i;
+  }
+  lines.splice(lastItem + 1, 0, `  - '${packagePath}'`);
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Files (relative to the workspace root) to create or update so that the package exists and is part of the workspace.
+ */
+export function workspacePackageFiles(rootDir: string, workspacePackage: WorkspacePackage, packageManagerCli: string): Map<string, string> {
+  const files = new Map<string, string>();
+  const packageJSONPath = path.join(workspacePackage.path, 'package.json');
+  if (!fs.existsSync(path.join(rootDir, packageJSONPath)))
+    files.set(packageJSONPath, JSON.stringify({ name: workspacePackage.name, version: '1.0.0', private: true, scripts: {} }, null, 2) + '\n');
+
+  const rootPackageJSONPath = path.join(rootDir, 'package.json');
+  const rootPackageJSON = fs.existsSync(rootPackageJSONPath) ? JSON.parse(fs.readFileSync(rootPackageJSONPath, 'utf-8')) : undefined;
+
+  // pnpm ignores the "workspaces" field, packages are listed in pnpm-workspace.yaml instead.
+  const pnpmWorkspacePath = path.join(rootDir, 'pnpm-workspace.yaml');
+  if (packageManagerCli === 'pnpm' || fs.existsSync(pnpmWorkspacePath)) {
+    if (!rootPackageJSON)
+      files.set('package.json', JSON.stringify({ name: path.basename(rootDir), version: '1.0.0', private: true }, null, 2) + '\n');
+    const content = fs.existsSync(pnpmWorkspacePath) ? fs.readFileSync(pnpmWorkspacePath, 'utf-8') : '';
+    const updated = registerInPnpmWorkspace(content, workspacePackage.path);
+    if (updated)
+      files.set('pnpm-workspace.yaml', updated);
+    return files;
+  }
+
+  if (!rootPackageJSON) {
+    files.set('package.json', JSON.stringify({ name: path.basename(rootDir), version: '1.0.0', private: true, workspaces: [workspacePackage.path] }, null, 2) + '\n');
+    return files;
+  }
+  const globs: string[] = Array.isArray(rootPackageJSON.workspaces) ? rootPackageJSON.workspaces : rootPackageJSON.workspaces?.packages || [];
+  if (globs.some(glob => !glob.startsWith('!') && matchesWorkspaceGlob(glob, workspacePackage.path)))
+    return files;
+  if (Array.isArray(rootPackageJSON.workspaces) || !rootPackageJSON.workspaces)
+    rootPackageJSON.workspaces = [...globs, workspacePackage.path];
+  else
+    rootPackageJSON.workspaces.packages = [...globs, workspacePackage.path];
+  // Yarn only allows workspaces in private projects.
+  rootPackageJSON.private = true;
+  files.set('package.json', JSON.stringify(rootPackageJSON, null, 2) + '\n');
+  return files;
+}
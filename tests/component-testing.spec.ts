@@ -20,10 +20,16 @@ import fs from 'fs';
 test('should be able to generate and run a CT React project', async ({ run, dir, exec, packageManager }) => {
   test.skip(packageManager === 'yarn-classic' || packageManager === 'yarn-berry');
   test.slow();
+  // Installed upfront, so that the screenshot of the example component is recorded right away.
+  fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify({ name: 'ct-react' }));
+  await exec(packageManager, [((packageManager === 'yarn-classic' || packageManager === 'yarn-berry') ? 'add' : 'install'), 'react', 'react-dom']);
+
   await run(['--ct'], { installGitHubActions: true, testDir: 'tests', language: 'TypeScript', installPlaywrightDependencies: false, installPlaywrightBrowsers: true, framework: 'react' });
   {
     expect(fs.existsSync(path.join(dir, 'playwright/index.html'))).toBeTruthy();
     expect(fs.existsSync(path.join(dir, 'playwright-ct.config.ts'))).toBeTruthy();
+    expect(fs.existsSync(path.join(dir, 'tests/Counter.tsx'))).toBeTruthy();
+    expect(fs.existsSync(path.join(dir, 'tests/Counter.spec.tsx'))).toBeTruthy();
     assertLockFilesExist(dir, packageManager);
   }
 
@@ -32,23 +38,6 @@ test('should be able to generate and run a CT React project', async ({ run, dir,
     expect(fs.readFileSync(path.join(dir, '.github/workflows/playwright.yml'), 'utf8')).toContain('test-ct');
   }
 
-  await exec(packageManager, [((packageManager === 'yarn-classic' || packageManager === 'yarn-berry') ? 'add' : 'install'), 'react', 'react-dom']);
-
-  fs.mkdirSync(path.join(dir, 'src'));
-  fs.writeFileSync(path.join(dir, 'src/App.tsx'), 'export default () => <>Learn React</>;');
-  fs.mkdirSync(path.join(dir, 'tests'));
-  fs.writeFileSync(path.join(dir, 'tests/App.spec.tsx'), `
-    import { test, expect } from '@playwright/experimental-ct-react';
-    import App from '../src/App';
-
-    test.use({ viewport: { width: 500, height: 500 } });
-
-    test('should work', async ({ mount }) => {
-      const component = await mount(<App />);
-      await expect(component).toContainText('Learn React');
-    });
-  `);
-
   await exec(packageManagerToNpxCommand(packageManager), ['playwright', 'install-deps']);
   await exec(packageManager, ['run', 'test-ct']);
 });
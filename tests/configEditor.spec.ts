@@ -0,0 +1,97 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { expect, test } from './baseFixtures';
+import { ConfigEditor } from '../src/configEditor';
+
+test.beforeEach(({ packageManager }) => {
+  test.skip(packageManager !== 'npm', 'does not depend on the package manager');
+});
+
+test('should append projects after the existing ones and keep comments', () => {
+  const editor = new ConfigEditor('playwright.config.ts', `import { defineConfig } from '@playwright/test';
+
+export default defineConfig({
+  // Custom comment
+  timeout: 5000,
+  projects: [
+    {
+      name: 'chromium',
+      use: { browserName: 'chromium' },
+    },
+    // { name: 'firefox' },
+  ],
+});
+`);
+  editor.ensureImport('devices');
+  expect(editor.addProject('chromium', `{ ...devices['Desktop Chrome'] }`)).toBe(false);
+  expect(editor.addProject('Pixel 5', `{ ...devices['Pixel 5'] }`)).toBe(true);
+  expect(editor.source).toBe(`import { defineConfig, devices } from '@playwright/test';
+
+export default defineConfig({
+  // Custom comment
+  timeout: 5000,
+  projects: [
+    {
+      name: 'chromium',
+      use: { browserName: 'chromium' },
+    },
+    {
+      name: 'Pixel 5',
+      use: { ...devices['Pixel 5'] },
+    },
+    // { name: 'firefox' },
+  ],
+});
+`);
+});
+
+test('should find the config behind a variable in CommonJS', () => {
+  const editor = new ConfigEditor('playwright.config.js', `const { defineConfig } = require('@playwright/test');
+
+const config = defineConfig({ testDir: './e2e' });
+
+module.exports = config;
+`);
+  expect(editor.stringOption('testDir')).toBe('./e2e');
+  editor.ensureImport('devices');
+  editor.addProject('webkit', `{ ...devices['Desktop Safari'] }`);
+  expect(editor.addUseOption('baseURL', `'http://localhost:3000'`)).toBe(true);
+  expect(editor.source).toBe(`const { defineConfig, devices } = require('@playwright/test');
+
+const config = defineConfig({ testDir: './e2e', projects: [ { name: 'webkit', use: { ...devices['Desktop Safari'] } } ], use: { baseURL: 'http://localhost:3000' } });
+
+module.exports = config;
+`);
+});
+
+test('should keep options that are set already', () => {
+  const editor = new ConfigEditor('playwright.config.ts', `export default {
+  use: {
+    baseURL: process.env.BASE_URL,
+  },
+  webServer: { command: 'npm start' },
+};
+`);
+  expect(editor.addUseOption('baseURL', `'http://localhost:3000'`)).toBe(false);
+  expect(editor.addOption('webServer', `{ command: 'npm run dev' }`)).toBe(false);
+  expect(editor.addUseOption('trace', `'on'`)).toBe(true);
+  expect(editor.source).toContain(`    baseURL: process.env.BASE_URL,\n    trace: 'on',\n  },`);
+});
+
+test('should fail for configs it does not understand', () => {
+  expect(() => new ConfigEditor('playwright.config.ts', `export default createConfig();`)).toThrow(`Could not find the configuration in playwright.config.ts`);
+  expect(() => new ConfigEditor('playwright.config.ts', `export default {`)).toThrow(`Could not parse playwright.config.ts`);
+});
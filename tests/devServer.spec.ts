@@ -0,0 +1,43 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import fs from 'fs';
+import path from 'path';
+import { expect, test } from './baseFixtures';
+import { detectDevServer } from '../src/devServer';
+import { determinePackageManager } from '../src/packageManager';
+
+test.beforeEach(({ packageManager }) => {
+  test.skip(packageManager !== 'npm', 'does not depend on the package manager');
+});
+
+const detect = (dir: string, packageJSON: object) => {
+  fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify(packageJSON));
+  return detectDevServer(dir, determinePackageManager(dir, 'npm'));
+};
+
+test('should prefer the dev script of the framework', ({ dir }) => {
+  expect(detect(dir, { dependencies: { 'next': '15.0.0', 'react': '19.0.0' }, scripts: { dev: 'next dev', start: 'next start' } })).toEqual({ framework: 'Next.js', command: 'npm run dev', url: 'http://localhost:3000' });
+  expect(detect(dir, { devDependencies: { '@angular/cli': '19.0.0' }, scripts: { start: 'ng serve' } })).toEqual({ framework: 'Angular CLI', command: 'npm run start', url: 'http://localhost:4200' });
+  expect(detect(dir, { devDependencies: { '@sveltejs/kit': '2.0.0', 'vite': '6.0.0' }, scripts: { dev: 'vite dev -p 5000' } })).toEqual({ framework: 'SvelteKit', command: 'npm run dev', url: 'http://localhost:5000' });
+});
+
+test('should fall back to the binary of the framework', ({ dir }) => {
+  expect(detect(dir, { devDependencies: { astro: '5.0.0' } })).toEqual({ framework: 'Astro', command: 'npx astro dev', url: 'http://localhost:4321' });
+});
+
+test('should not detect anything without a known framework', ({ dir }) => {
+  expect(detect(dir, { dependencies: { express: '5.0.0' }, scripts: { start: 'node server.js' } })).toBeUndefined();
+});
@@ -16,6 +16,7 @@
 import fs from 'fs';
 import path from 'path';
 import { assertLockFilesExist, expect, packageManagerToNpxCommand, test } from './baseFixtures';
+import type { PromptOptions } from '../src/generator';
 
 const validGitignore = [
   '# Playwright',
@@ -27,6 +28,12 @@ const validGitignore = [
   '/playwright/.auth/'
 ].join('\n');
 
+type DryRunPlan = { files: { path: string, content: string }[] };
+
+function planFile(plan: DryRunPlan, filePath: string): string | undefined {
+  return plan.files.find(file => file.path === filePath)?.content;
+}
+
 test('should generate a project in the current directory', async ({ run, dir, packageManager }) => {
   test.skip(packageManager === 'yarn-classic' || packageManager === 'yarn-berry');
   test.slow();
@@ -186,7 +193,7 @@ test('should not prompt and skip existing files in --quiet mode', async ({ run,
   const originalConfig = fs.readFileSync(path.join(dir, 'playwright.config.ts'), 'utf8');
 
   // Second run: use --quiet, existing files should be skipped without prompting
-  await expect(run(['--quiet'], { installGitHubActions: false, testDir: 'tests', language: 'TypeScript', installPlaywrightDependencies: false, installPlaywrightBrowsers: false })).rejects.toThrowError("run again with --force");
+  await expect(run(['--quiet'], { installGitHubActions: false, testDir: 'tests', language: 'TypeScript', installPlaywrightDependencies: false, installPlaywrightBrowsers: false })).rejects.toThrowError("run again with --on-conflict=overwrite");
   
   // Verify the existing file was not overwritten
   expect(fs.readFileSync(path.join(dir, 'playwright.config.ts'), 'utf8')).toBe(originalConfig);
@@ -202,4 +209,670 @@ test('is proper yarn berry', async ({ packageManager, exec }) => {
   test.skip(packageManager !== 'yarn-berry');
   const result = await exec('yarn --version', [], { cwd: test.info().outputDir, shell: true });
   expect(result.stdout).toMatch(/^4\./);
-});
\ No newline at end of file
+});
+
+test('should print the plan without touching disk in --dry-run=json mode', async ({ run, dir, packageManager }) => {
+  test.skip(packageManager !== 'npm');
+
+  fs.writeFileSync(path.join(dir, '.gitignore'), 'node_modules/\n');
+  const { stdout } = await run(['--dry-run=json'], { installGitHubActions: true, testDir: 'tests', language: 'TypeScript', installPlaywrightDependencies: false, installPlaywrightBrowsers: true });
+  const plan = JSON.parse(stdout);
+  expect(plan.files.map((file: { path: string }) => file.path)).toEqual(expect.arrayContaining(['playwright.config.ts', 'tests/example.spec.ts', '.github/workflows/playwright.yml']));
+  expect(plan.commands).toEqual(expect.arrayContaining([
+    { name: 'Installing Playwright Test', command: 'npm install --save-dev @playwright/test', phase: 'pre' },
+    { name: 'Downloading browsers', command: 'npx playwright install', phase: 'post' },
+  ]));
+  expect(plan.gitignore.action).toBe('modify');
+  expect(plan.gitignore.diff).toContain('+/test-results/');
+  expect(plan.packageJSON.action).toBe('create');
+  expect(fs.readdirSync(dir)).toEqual(['.gitignore']);
+  expect(fs.readFileSync(path.join(dir, '.gitignore'), 'utf8')).toBe('node_modules/\n');
+});
+
+test('should take the rootDir after --dry-run', async ({ exec, dir, packageManager }) => {
+  test.skip(packageManager !== 'npm');
+
+  const { stdout } = await exec('node', [path.join(__dirname, '..'), '--quiet', '--dry-run', 'my-app']);
+  expect(stdout).toContain('Dry run, nothing will be written or executed.');
+  expect(stdout).toContain(`Initializing project in 'my-app'`);
+  const plan = JSON.parse((await exec('node', [path.join(__dirname, '..'), '--quiet', '--dry-run=json', 'my-app'])).stdout);
+  expect(plan.rootDir).toBe(path.join(dir, 'my-app'));
+  expect(fs.readdirSync(dir)).toEqual([]);
+});
+
+test('should resolve existing files with --on-conflict in --quiet mode', async ({ run, dir, packageManager }) => {
+  test.skip(packageManager !== 'npm');
+
+  await run([], { installGitHubActions: false, testDir: 'tests', language: 'TypeScript', installPlaywrightDependencies: false, installPlaywrightBrowsers: false });
+  const configPath = path.join(dir, 'playwright.config.ts');
+  const originalConfig = fs.readFileSync(configPath, 'utf8');
+  fs.writeFileSync(configPath, '// my config\n');
+
+  await run(['--quiet', '--on-conflict=skip'], { installGitHubActions: false, testDir: 'tests', language: 'TypeScript', installPlaywrightDependencies: false, installPlaywrightBrowsers: false });
+  expect(fs.readFileSync(configPath, 'utf8')).toBe('// my config\n');
+
+  await run(['--quiet', '--on-conflict=backup'], { installGitHubActions: false, testDir: 'tests', language: 'TypeScript', installPlaywrightDependencies: false, installPlaywrightBrowsers: false });
+  expect(fs.readFileSync(configPath, 'utf8')).toBe(originalConfig);
+  expect(fs.readFileSync(configPath + '.orig', 'utf8')).toBe('// my config\n');
+});
+
+test('should roll back changes when a step fails', async ({ run, dir, packageManager }) => {
+  test.skip(packageManager !== 'npm');
+
+  const packageJSON = JSON.stringify({ name: 'broken', version: '1.0.0', dependencies: { '@playwright/this-package-does-not-exist': '1.0.0' } }, null, 2);
+  fs.writeFileSync(path.join(dir, 'package.json'), packageJSON);
+  await expect(run([], { installGitHubActions: false, testDir: 'tests', language: 'TypeScript', installPlaywrightDependencies: false, installPlaywrightBrowsers: false })).rejects.toThrowError('rolling back changes');
+  expect(fs.readdirSync(dir)).toEqual(['package.json']);
+  expect(fs.readFileSync(path.join(dir, 'package.json'), 'utf8')).toBe(packageJSON);
+
+  await expect(run(['--keep-on-failure'], { installGitHubActions: false, testDir: 'tests', language: 'TypeScript', installPlaywrightDependencies: false, installPlaywrightBrowsers: false })).rejects.toThrowError('keeping the partially initialized project');
+});
+
+test('should detect Bun from bun.lock', async ({ run, dir, packageManager }) => {
+  test.skip(packageManager !== 'npm');
+
+  fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify({ name: 'bun-project', version: '1.0.0' }));
+  fs.writeFileSync(path.join(dir, 'bun.lock'), '');
+  const { stdout } = await run(['--dry-run=json'], { installGitHubActions: true, testDir: 'tests', language: 'TypeScript', installPlaywrightDependencies: false, installPlaywrightBrowsers: true });
+  const plan = JSON.parse(stdout);
+  expect(plan.packageManager).toBe('Bun');
+  expect(plan.commands).toEqual(expect.arrayContaining([
+    { name: 'Installing Playwright Test', command: 'bun add --dev @playwright/test', phase: 'pre' },
+    { name: 'Downloading browsers', command: 'bunx playwright install', phase: 'post' },
+  ]));
+  const workflow = planFile(plan, '.github/workflows/playwright.yml');
+  expect(workflow).toContain('uses: oven-sh/setup-bun@v2');
+  expect(workflow).toContain('run: bun install --frozen-lockfile');
+  expect(workflow).not.toContain('cache: "npm"');
+});
+
+test('should prefer --package-manager, then the packageManager field, then lockfiles', async ({ run, dir, packageManager }) => {
+  test.skip(packageManager !== 'npm');
+
+  const options = { installGitHubActions: false, testDir: 'tests', language: 'TypeScript', installPlaywrightDependencies: false, installPlaywrightBrowsers: false } as const;
+  const installCommand = (plan: { commands: { name: string, command: string }[] }) => plan.commands.find(command => command.name === 'Installing Playwright Test')?.command;
+
+  fs.writeFileSync(path.join(dir, 'yarn.lock'), '# THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.\n# yarn lockfile v1\n');
+  {
+    const { stdout, stderr } = await run(['--dry-run=json'], options);
+    expect(installCommand(JSON.parse(stdout))).toBe('yarn add --dev @playwright/test');
+    expect(stderr).not.toContain('takes precedence');
+  }
+
+  fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify({ name: 'pm', version: '1.0.0', packageManager: 'pnpm@9.1.0+sha512.abc' }));
+  {
+    const { stdout, stderr } = await run(['--dry-run=json'], options);
+    expect(installCommand(JSON.parse(stdout))).toBe('pnpm add --save-dev @playwright/test');
+    expect(stderr).toContain('Using pnpm from the "packageManager" field in package.json, which takes precedence over yarn from yarn.lock.');
+  }
+
+  {
+    const { stdout, stderr } = await run(['--dry-run=json', '--package-manager', 'npm'], options);
+    expect(installCommand(JSON.parse(stdout))).toBe('npm install --save-dev @playwright/test');
+    expect(stderr).toContain('Using npm from --package-manager, which takes precedence over pnpm from the "packageManager" field in package.json and yarn from yarn.lock.');
+  }
+});
+
+test('should use Corepack and immutable installs in GHA for pnpm and Yarn', async ({ run, dir, packageManager }) => {
+  test.skip(packageManager !== 'npm');
+
+  const options = { installGitHubActions: true, testDir: 'tests', language: 'TypeScript', installPlaywrightDependencies: false, installPlaywrightBrowsers: false } as const;
+  const workflow = (stdout: string) => planFile(JSON.parse(stdout), '.github/workflows/playwright.yml');
+
+  fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify({ name: 'pm', version: '1.0.0', packageManager: 'pnpm@9.1.0' }));
+  {
+    const content = workflow((await run(['--dry-run=json'], options)).stdout);
+    expect(content).toContain('run: corepack enable');
+    expect(content).toContain('cache: "pnpm"');
+    expect(content).toContain('run: pnpm install --frozen-lockfile');
+  }
+
+  fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify({ name: 'pm', version: '1.0.0', packageManager: 'yarn@1.22.22' }));
+  {
+    const content = workflow((await run(['--dry-run=json'], options)).stdout);
+    expect(content).toContain('cache: "yarn"');
+    expect(content).toContain('run: yarn install --frozen-lockfile');
+  }
+
+  fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify({ name: 'pm', version: '1.0.0', packageManager: 'yarn@4.5.0' }));
+  fs.writeFileSync(path.join(dir, '.yarnrc.yml'), 'nodeLinker: pnp\n');
+  {
+    const content = workflow((await run(['--dry-run=json'], options)).stdout);
+    expect(content).toContain('run: yarn install --immutable');
+    expect(content).toContain('run: yarn run playwright install --with-deps');
+  }
+});
+
+test('should generate a separate package in an npm workspace', async ({ run, dir, packageManager }) => {
+  test.skip(packageManager !== 'npm');
+
+  const rootPackageJSON = JSON.stringify({ name: 'monorepo', version: '1.0.0', private: true, workspaces: ['packages/*'] }, null, 2) + '\n';
+  fs.writeFileSync(path.join(dir, 'package.json'), rootPackageJSON);
+  await run(['--workspace-package', 'packages/e2e'], { installGitHubActions: true, testDir: 'tests', language: 'TypeScript', installPlaywrightDependencies: false, installPlaywrightBrowsers: false });
+  expect(fs.readFileSync(path.join(dir, 'package.json'), 'utf8')).toBe(rootPackageJSON);
+  const packageJSON = JSON.parse(fs.readFileSync(path.join(dir, 'packages/e2e/package.json'), 'utf8'));
+  expect(packageJSON.name).toBe('e2e');
+  expect(packageJSON.devDependencies['@playwright/test']).toBeTruthy();
+  expect(fs.existsSync(path.join(dir, 'packages/e2e/playwright.config.ts'))).toBeTruthy();
+  expect(fs.existsSync(path.join(dir, 'packages/e2e/tests/example.spec.ts'))).toBeTruthy();
+  expect(fs.readFileSync(path.join(dir, 'packages/e2e/.gitignore'), 'utf8')).toContain('/playwright-report/');
+  const workflow = fs.readFileSync(path.join(dir, '.github/workflows/playwright.yml'), 'utf8');
+  expect(workflow).toContain('run: npm ci');
+  expect(workflow).toContain('run: npm exec -w packages/e2e -- playwright test');
+  expect(workflow).toContain('path: packages/e2e/playwright-report/');
+});
+
+test('should register a pnpm workspace package', async ({ run, dir, packageManager }) => {
+  test.skip(packageManager !== 'npm');
+
+  fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify({ name: 'monorepo', private: true, packageManager: 'pnpm@10.0.0' }));
+  fs.writeFileSync(path.join(dir, 'pnpm-workspace.yaml'), `packages:\n  - 'apps/*'\n`);
+  const { stdout } = await run(['--workspace-package', 'e2e', '--dry-run=json'], { installGitHubActions: true, testDir: 'tests', language: 'TypeScript', installPlaywrightDependencies: false, installPlaywrightBrowsers: false });
+  const plan = JSON.parse(stdout);
+  expect(planFile(plan, 'pnpm-workspace.yaml')).toBe(`packages:\n  - 'apps/*'\n  - 'e2e'\n`);
+  expect(plan.files).toContainEqual(expect.objectContaining({ path: 'e2e/package.json', action: 'create' }));
+  expect(planFile(plan, 'e2e/playwright.config.ts')).toBeTruthy();
+  expect(planFile(plan, '.github/workflows/playwright.yml')).toContain('run: pnpm --filter e2e exec playwright test');
+  expect(plan.commands).toContainEqual({ name: 'Installing Playwright Test', command: 'pnpm --filter e2e add --save-dev @playwright/test', phase: 'pre' });
+});
+
+test('should add projects for devices and branded browsers', async ({ exec, packageManager }) => {
+  test.skip(packageManager !== 'npm');
+
+  const { stdout } = await exec('node', [path.join(__dirname, '..'), '--quiet', '--gha', '--browser', 'chromium', '--device', 'iPhone 12', '--channel', 'msedge', '--dry-run=json']);
+  const plan = JSON.parse(stdout);
+  expect(planFile(plan, 'playwright.config.ts')).toContain(`    {
+      name: 'iPhone 12',
+      use: { ...devices['iPhone 12'] },
+    },
+
+    {
+      name: 'Microsoft Edge',
+      use: { ...devices['Desktop Edge'], channel: 'msedge' },
+    },`);
+  // The device needs WebKit, the channel has to be installed by name.
+  expect(plan.commands).toContainEqual({ name: 'Downloading browsers', command: 'npx playwright install chromium webkit msedge', phase: 'post' });
+  expect(planFile(plan, '.github/workflows/playwright.yml')).toContain('run: npx playwright install --with-deps chromium webkit msedge');
+
+  const defaultPlan = JSON.parse((await exec('node', [path.join(__dirname, '..'), '--quiet', '--dry-run=json'])).stdout);
+  expect(planFile(defaultPlan, 'playwright.config.ts')).not.toContain('\n\n\n');
+
+  await expect(exec('node', [path.join(__dirname, '..'), '--quiet', '--device', 'iphone 12', '--dry-run=json'])).rejects.toThrowError(`Unknown device 'iphone 12', did you mean 'iPhone 12'?`);
+});
+
+test('should validate --browser and install only the headless shell', async ({ exec, packageManager }) => {
+  test.skip(packageManager !== 'npm');
+
+  await expect(exec('node', [path.join(__dirname, '..'), '--quiet', '--browser', 'chrome', '--dry-run=json'])).rejects.toThrowError(`'chrome' is a branded browser, pass it via --channel chrome instead.`);
+  await expect(exec('node', [path.join(__dirname, '..'), '--quiet', '--browser', 'chromum', '--dry-run=json'])).rejects.toThrowError(`Expected one of chromium, firefox, webkit.`);
+
+  const { stdout } = await exec('node', [path.join(__dirname, '..'), '--quiet', '--gha', '--browser', 'chromium', '--only-shell', '--dry-run=json']);
+  const plan = JSON.parse(stdout);
+  expect(planFile(plan, 'playwright.config.ts')).toContain(`    // {\n    //   name: 'firefox',`);
+  expect(plan.commands).toContainEqual({ name: 'Downloading browsers', command: 'npx playwright install chromium --only-shell', phase: 'post' });
+  expect(planFile(plan, '.github/workflows/playwright.yml')).toContain('run: npx playwright install --with-deps chromium --only-shell');
+});
+
+test('should set up authentication for several roles with --auth', async ({ exec, packageManager }) => {
+  test.skip(packageManager !== 'npm');
+
+  const { stdout } = await exec('node', [path.join(__dirname, '..'), '--quiet', '--auth=admin,user', '--test-dir', 'e2e', '--dry-run=json']);
+  const plan = JSON.parse(stdout);
+  const config = planFile(plan, 'playwright.config.ts');
+  expect(config).toContain(`    storageState: 'playwright/.auth/admin.json',\n`);
+  expect(config).toContain(`      name: 'setup',\n      testMatch: /.*\\.setup\\.[cm]?[jt]s/,\n`);
+  expect(config).toContain(`      use: { ...devices['Desktop Chrome'] },\n      dependencies: ['setup'],\n`);
+  const setup = planFile(plan, 'e2e/auth.setup.ts');
+  expect(setup).toContain(`setup('authenticate as admin', async ({ page }) => {\n  const username = process.env['ADMIN_USERNAME'];`);
+  expect(setup).toContain(`await page.context().storageState({ path: 'playwright/.auth/user.json' });`);
+
+  await expect(exec('node', [path.join(__dirname, '..'), '--quiet', '--auth=admin,power user', '--dry-run=json'])).rejects.toThrowError(`'power user' is not a valid role`);
+  // The roles are attached with '=', a bare --auth leaves the following argument to the rootDir.
+  await expect(exec('node', [path.join(__dirname, '..'), '--quiet', '--auth', 'admin,user', '--dry-run=json'])).rejects.toThrowError('pass the roles attached to the option, as in --auth=admin,user');
+});
+
+test('should take the rootDir after --auth', async ({ exec, dir, packageManager }) => {
+  test.skip(packageManager !== 'npm');
+
+  const plan = JSON.parse((await exec('node', [path.join(__dirname, '..'), '--quiet', '--dry-run=json', '--auth', 'my-app'])).stdout);
+  expect(plan.rootDir).toBe(path.join(dir, 'my-app'));
+  const setup = planFile(plan, 'tests/auth.setup.ts');
+  expect(setup).toContain(`setup('authenticate as user', async ({ page }) => {`);
+  expect(setup).not.toContain('my-app');
+});
+
+test('should generate page objects and fixtures with --structure pom', async ({ exec, packageManager }) => {
+  test.skip(packageManager !== 'npm');
+
+  const planOf = async (args: string[]) => JSON.parse((await exec('node', [path.join(__dirname, '..'), '--quiet', '--structure', 'pom', '--test-dir', 'e2e', '--dry-run=json', ...args])).stdout);
+  const typescript = await planOf([]);
+  const paths = typescript.files.map((file: { path: string }) => file.path);
+  expect(paths).toEqual(expect.arrayContaining(['e2e/fixtures.ts', 'e2e/pages/base-page.ts', 'e2e/pages/playwright-dev-page.ts', 'e2e/example.spec.ts']));
+  const spec = planFile(typescript, 'e2e/example.spec.ts');
+  expect(spec).toContain(`import { test, expect } from './fixtures';`);
+  expect(spec).toContain(`await playwrightDevPage.getStarted();`);
+
+  // ES modules need the extension of relative imports.
+  const javascript = await planOf(['--lang', 'js', '--module', 'esm']);
+  expect(planFile(javascript, 'e2e/fixtures.mjs')).toContain(`import { PlaywrightDevPage } from './pages/playwright-dev-page.mjs';`);
+  expect(planFile(javascript, 'e2e/pages/playwright-dev-page.mjs')).toContain(`export class PlaywrightDevPage extends BasePage {`);
+  expect(planFile(javascript, 'e2e/example.spec.mjs')).toContain(`import { test, expect } from './fixtures.mjs';`);
+});
+
+test('should shard the GHA workflow and merge the blob reports', async ({ run, packageManager }) => {
+  test.skip(packageManager !== 'npm');
+
+  const { stdout } = await run(['--shards', '3', '--dry-run=json'], { installGitHubActions: true, testDir: 'tests', language: 'TypeScript', installPlaywrightDependencies: false, installPlaywrightBrowsers: false });
+  const plan = JSON.parse(stdout);
+  const workflow = planFile(plan, '.github/workflows/playwright.yml');
+  expect(workflow).toContain('shardIndex: [1, 2, 3]');
+  expect(workflow).toContain('shardTotal: [3]');
+  expect(workflow).toContain('run: npx playwright test --shard=${{ matrix.shardIndex }}/${{ matrix.shardTotal }}');
+  expect(workflow).toContain('name: blob-report-${{ matrix.shardIndex }}');
+  expect(workflow).toContain('merge-reports:');
+  expect(workflow).toContain('run: npx playwright merge-reports --reporter html ./all-blob-reports');
+  expect(workflow).not.toContain('{{shard');
+  expect(planFile(plan, 'playwright.config.ts')).toContain(`reporter: process.env.CI ? 'blob' : 'html',`);
+});
+
+test('should derive the GHA branch and Node.js version from the repository', async ({ run, dir, packageManager }) => {
+  test.skip(packageManager !== 'npm');
+
+  fs.mkdirSync(path.join(dir, '.git', 'refs', 'remotes', 'origin'), { recursive: true });
+  fs.writeFileSync(path.join(dir, '.git', 'HEAD'), 'ref: refs/heads/feature\n');
+  fs.writeFileSync(path.join(dir, '.git', 'refs', 'remotes', 'origin', 'HEAD'), 'ref: refs/remotes/origin/develop\n');
+  fs.writeFileSync(path.join(dir, '.node-version'), '22.11.0\n');
+  fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify({ name: 'test', engines: { node: '>=18' } }));
+  const { stdout } = await run(['--dry-run=json'], { installGitHubActions: true, ghaTriggers: ['schedule', 'workflow_dispatch'], testDir: 'tests', language: 'TypeScript', installPlaywrightDependencies: false, installPlaywrightBrowsers: false });
+  const workflow = planFile(JSON.parse(stdout), '.github/workflows/playwright.yml');
+  expect(workflow).toContain('branches: [ develop ]');
+  expect(workflow).toContain('node-version: 22.11.0');
+  expect(workflow).toContain(`- cron: '0 3 * * *'`);
+  expect(workflow).toContain('workflow_dispatch:');
+  expect(workflow).toContain(`run: npx playwright test \${{ inputs.project && format('--project={0}', inputs.project) || '' }}`);
+
+  fs.rmSync(path.join(dir, '.git', 'refs', 'remotes'), { recursive: true });
+  fs.rmSync(path.join(dir, '.node-version'));
+  const { stdout: stdout2 } = await run(['--dry-run=json'], { installGitHubActions: true, testDir: 'tests', language: 'TypeScript', installPlaywrightDependencies: false, installPlaywrightBrowsers: false });
+  const workflow2 = planFile(JSON.parse(stdout2), '.github/workflows/playwright.yml');
+  expect(workflow2).toContain('branches: [ feature ]');
+  expect(workflow2).toContain('node-version: ">=18"');
+  expect(workflow2).not.toContain('schedule:');
+  expect(workflow2).not.toContain('workflow_dispatch:');
+});
+
+test('should generate a Docker setup pinned to the installed Playwright version', async ({ run, dir, packageManager }) => {
+  test.skip(packageManager !== 'npm');
+
+  await run(['--docker'], { installGitHubActions: true, testDir: 'tests', language: 'TypeScript', installPlaywrightDependencies: false, installPlaywrightBrowsers: false });
+  const version = JSON.parse(fs.readFileSync(path.join(dir, 'node_modules', '@playwright', 'test', 'package.json'), 'utf-8')).version;
+  const dockerfile = fs.readFileSync(path.join(dir, 'Dockerfile'), 'utf-8');
+  expect(dockerfile).toContain(`FROM mcr.microsoft.com/playwright:v${version}-noble`);
+  expect(dockerfile).toContain('RUN npm ci');
+  expect(dockerfile).toContain('CMD npx playwright test');
+  expect(fs.readFileSync(path.join(dir, 'docker-compose.yml'), 'utf-8')).toContain('build: .');
+  expect(fs.readFileSync(path.join(dir, '.dockerignore'), 'utf-8')).toBe('**/node_modules\ntest-results\nplaywright-report\nblob-report\nplaywright/.cache\nplaywright/.auth\n');
+  expect(JSON.parse(fs.readFileSync(path.join(dir, 'package.json'), 'utf-8')).scripts['test:docker']).toBe('docker compose run --build --rm playwright');
+  const workflow = fs.readFileSync(path.join(dir, '.github/workflows/playwright.yml'), 'utf-8');
+  expect(workflow).toContain(`image: mcr.microsoft.com/playwright:v${version}-noble`);
+  expect(workflow).not.toContain('Install Playwright Browsers');
+});
+
+test('should keep the Playwright version open in --dry-run mode', async ({ run, packageManager }) => {
+  test.skip(packageManager !== 'npm');
+
+  const options: PromptOptions = { installGitHubActions: true, testDir: 'tests', language: 'TypeScript', installPlaywrightDependencies: false, installPlaywrightBrowsers: false };
+  const plan: DryRunPlan = JSON.parse((await run(['--docker', '--dry-run=json'], options)).stdout);
+  expect(planFile(plan, 'Dockerfile')).toContain('FROM mcr.microsoft.com/playwright:v{{playwrightVersion}}-noble');
+  const { stdout } = await run(['--docker', '--next', '--dry-run'], options);
+  expect(stdout).toContain('{{playwrightVersion}} stands for the version of @playwright/test@next that gets installed.');
+});
+
+test('should read all answers from --answers without prompting', async ({ exec, dir, packageManager }) => {
+  test.skip(packageManager !== 'npm');
+
+  fs.writeFileSync(path.join(dir, 'answers.yaml'), [
+    'language: JavaScript',
+    'framework: vue',
+    'ciProvider: gitlab',
+    'browser: [firefox]',
+    'installPlaywrightBrowsers: false',
+  ].join('\n'));
+  const { stdout } = await exec('node', [path.join(__dirname, '..'), '--answers', 'answers.yaml', '--dry-run=json']);
+  const plan = JSON.parse(stdout);
+  expect(plan.answers).toEqual(expect.objectContaining({ language: 'JavaScript', framework: 'vue', ciProvider: 'gitlab', installPlaywrightBrowsers: false }));
+  const paths = plan.files.map((file: { path: string }) => file.path);
+  expect(paths).toContain('playwright-ct.config.js');
+  expect(paths).toContain('.gitlab-ci.yml');
+  expect(plan.commands).toContainEqual({ name: 'Installing Playwright Component Testing', command: 'npm install --save-dev @playwright/experimental-ct-vue', phase: 'pre' });
+});
+
+test('should reject unknown keys in create-playwright.config.json', async ({ exec, dir, packageManager }) => {
+  test.skip(packageManager !== 'npm');
+
+  fs.writeFileSync(path.join(dir, 'create-playwright.config.json'), JSON.stringify({ language: 'Python', ciProvider: 'github', colour: 'blue' }));
+  const error = await exec('node', [path.join(__dirname, '..'), '--dry-run=json']).catch(e => e);
+  expect(error.message).toContain('Invalid answers in');
+  expect(error.message).toContain('"language" must be one of "TypeScript", "JavaScript", got "Python"');
+  expect(error.message).toContain('unknown key "colour"');
+});
+
+test('should not read create-playwright.config.json from above the git repository', async ({ exec, dir, packageManager }) => {
+  test.skip(packageManager !== 'npm');
+
+  fs.writeFileSync(path.join(dir, 'create-playwright.config.json'), JSON.stringify({ language: 'JavaScript' }));
+  fs.mkdirSync(path.join(dir, 'repo', '.git'), { recursive: true });
+  const planOf = async () => JSON.parse((await exec('node', [path.join(__dirname, '..'), '--quiet', '--dry-run=json', 'repo/app'])).stdout);
+  expect((await planOf()).answers.language).toBe('TypeScript');
+  fs.writeFileSync(path.join(dir, 'repo', 'create-playwright.config.json'), JSON.stringify({ language: 'JavaScript' }));
+  expect((await planOf()).answers.language).toBe('JavaScript');
+});
+
+test('should pick a framework for --ct --quiet', async ({ exec, packageManager }) => {
+  test.skip(packageManager !== 'npm');
+
+  const { stdout } = await exec('node', [path.join(__dirname, '..'), '--ct', '--quiet', '--dry-run=json']);
+  const plan = JSON.parse(stdout);
+  expect(plan.answers.framework).toBe('react');
+  expect(plan.commands).toContainEqual({ name: 'Installing Playwright Component Testing', command: 'npm install --save-dev @playwright/experimental-ct-react', phase: 'pre' });
+});
+
+test('should detect the component testing framework from the dependencies', async ({ exec, dir, packageManager }) => {
+  test.skip(packageManager !== 'npm');
+
+  const planOf = async (args: string[] = []) => {
+    const result = await exec('node', [path.join(__dirname, '..'), '--ct', '--quiet', '--dry-run=json', ...args]);
+    return { ...JSON.parse(result.stdout), stderr: result.stderr };
+  };
+  fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify({ name: 'app', dependencies: { 'react': '^17.0.2' } }));
+  expect((await planOf()).answers.framework).toBe('react17');
+
+  // The installed version wins over the range in package.json.
+  fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify({ name: 'app', dependencies: { 'vue': '*' } }));
+  fs.mkdirSync(path.join(dir, 'node_modules', 'vue'), { recursive: true });
+  fs.writeFileSync(path.join(dir, 'node_modules', 'vue', 'package.json'), JSON.stringify({ name: 'vue', version: '2.7.16' }));
+  const vue2 = await planOf();
+  expect(vue2.answers.framework).toBe('vue2');
+  expect(vue2.commands).toContainEqual({ name: 'Installing Playwright Component Testing', command: 'npm install --save-dev @playwright/experimental-ct-vue2', phase: 'pre' });
+
+  const mismatch = await planOf(['--framework', 'vue']);
+  expect(mismatch.answers.framework).toBe('vue');
+  expect(mismatch.stderr).toContain('Using the Vue 3 adapter, but found vue@2.7.16 which needs the Vue 2 one.');
+
+  fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify({ name: 'app', dependencies: { 'react': '16.14.0' } }));
+  expect((await planOf()).stderr).toContain('Found react@16.14.0, but component testing only supports React 18+, React 17.');
+});
+
+test('should generate an example component and test for component testing', async ({ run, dir, packageManager }) => {
+  test.skip(packageManager !== 'npm');
+
+  fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify({ name: 'app', dependencies: { vue: '^3.5.0' } }));
+  fs.mkdirSync(path.join(dir, 'node_modules', 'vue'), { recursive: true });
+  fs.writeFileSync(path.join(dir, 'node_modules', 'vue', 'package.json'), JSON.stringify({ name: 'vue', version: '3.5.13' }));
+  const plan = JSON.parse((await run(['--ct', '--dry-run=json'], { installGitHubActions: false, testDir: '', language: 'JavaScript', installPlaywrightDependencies: false, installPlaywrightBrowsers: true, framework: 'vue' })).stdout);
+  expect(planFile(plan, 'src/Counter.vue')).toContain(`<script setup>\n`);
+  expect(planFile(plan, 'src/Counter.vue')).toContain(`<button @click="count++">Count is {{ count }}</button>`);
+  expect(planFile(plan, 'src/Counter.spec.js')).toContain(`import Counter from './Counter.vue';`);
+  expect(planFile(plan, 'src/Counter.spec.js')).toContain(`await expect(component).toHaveScreenshot();`);
+  expect(plan.commands).toContainEqual({ name: 'Recording the screenshot of the example component', command: 'npx playwright test -c playwright-ct.config.js --update-snapshots src/Counter.spec.js', phase: 'post' });
+});
+
+test('should set up end-to-end and component tests together', async ({ exec, packageManager }) => {
+  test.skip(packageManager !== 'npm');
+
+  const { stdout } = await exec('node', [path.join(__dirname, '..'), '--ct', '--e2e', '--framework', 'react', '--gha', '--quiet', '--dry-run=json']);
+  const plan = JSON.parse(stdout);
+  expect(planFile(plan, 'playwright.config.ts')).toContain(`testDir: './tests',`);
+  expect(planFile(plan, 'tests/example.spec.ts')).toBeTruthy();
+  expect(planFile(plan, 'playwright-ct.config.ts')).toContain(`testDir: './src',`);
+  expect(planFile(plan, 'playwright-ct.config.ts')).toContain(`reporter: [['html', { outputFolder: 'playwright-ct-report' }]],`);
+  expect(planFile(plan, 'src/Counter.spec.tsx')).toBeTruthy();
+  expect(plan.commands.map((command: { name: string }) => command.name)).toEqual(expect.arrayContaining(['Installing Playwright Test', 'Installing Playwright Component Testing']));
+
+  const workflow = planFile(plan, '.github/workflows/playwright.yml');
+  expect(workflow).toContain('    - name: Run Playwright tests\n      run: npx playwright test\n');
+  expect(workflow).toContain('  component-tests:\n');
+  expect(workflow).toContain('    - name: Run component tests\n      run: npm run test-ct\n');
+  expect(workflow).toContain('        name: playwright-ct-report\n        path: playwright-ct-report/\n');
+
+  const packageJSON = JSON.parse(plan.packageJSON.content);
+  expect(packageJSON.scripts).toEqual({ 'test:e2e': 'playwright test', 'test-ct': 'playwright test -c playwright-ct.config.ts' });
+  expect(plan.gitignore.content).toContain('/playwright-ct-report/\n');
+});
+
+test('should take files from a local --template pack', async ({ run, dir, packageManager }) => {
+  test.skip(packageManager !== 'npm');
+
+  const templateDir = path.join(dir, 'template');
+  fs.mkdirSync(templateDir);
+  fs.writeFileSync(path.join(templateDir, 'create-playwright.template.json'), JSON.stringify({
+    files: { '{{testDir}}/fixtures.ts': 'fixtures.ts' },
+    variables: { company: 'Acme' },
+    prompts: [
+      { type: 'input', name: 'baseURL', message: 'Base URL?', initial: 'http://localhost:3000' },
+      { type: 'confirm', name: 'login', message: 'Add a login fixture?', initial: false },
+    ],
+  }));
+  fs.writeFileSync(path.join(templateDir, 'example.spec.ts'), `// {{company}} tests in {{testDir}} against {{baseURL}}\n`);
+  fs.writeFileSync(path.join(templateDir, 'fixtures.ts'), [
+    `export const baseURL = '{{baseURL}}';`,
+    `//--begin-login`,
+    `export const login = true;`,
+    `//--end-login`,
+  ].join('\n'));
+
+  const { stdout } = await run(['--template', templateDir, '--dry-run=json'], { installGitHubActions: false, testDir: 'e2e', language: 'TypeScript', installPlaywrightDependencies: false, installPlaywrightBrowsers: false, templateVariables: { baseURL: 'https://acme.dev' } });
+  const plan = JSON.parse(stdout);
+  expect(plan.answers.templateVariables).toEqual({ baseURL: 'https://acme.dev', login: false });
+  expect(planFile(plan, 'e2e/example.spec.ts')).toBe('// Acme tests in e2e against https://acme.dev\n');
+  expect(planFile(plan, 'e2e/fixtures.ts')).toBe(`export const baseURL = 'https://acme.dev';`);
+  // Files that the pack does not provide come from the built-in assets.
+  expect(planFile(plan, 'playwright.config.ts')).toContain(`testDir: './e2e'`);
+});
+
+test('should reject template files outside of the pack and the project', async ({ exec, dir, packageManager }) => {
+  test.skip(packageManager !== 'npm');
+
+  const templateDir = path.join(dir, 'template');
+  fs.mkdirSync(templateDir);
+  fs.writeFileSync(path.join(dir, 'secret.txt'), 'secret');
+  fs.writeFileSync(path.join(templateDir, 'fixtures.ts'), '');
+  fs.writeFileSync(path.join(templateDir, 'create-playwright.template.json'), JSON.stringify({
+    files: { 'e2e/secret.txt': '../secret.txt', '../../.bashrc': 'fixtures.ts' },
+  }));
+  const error = await exec('node', [path.join(__dirname, '..'), '--quiet', '--template', templateDir, '--dry-run=json']).catch(e => e);
+  expect(error.message).toContain('file "../secret.txt" for "e2e/secret.txt" is outside of the template pack');
+  expect(error.message).toContain('destination "../../.bashrc" is outside of the project');
+
+  fs.writeFileSync(path.join(templateDir, 'create-playwright.template.json'), JSON.stringify({
+    files: { '{{dir}}/.bashrc': 'fixtures.ts' },
+    variables: { dir: '../..' },
+  }));
+  const renderedError = await exec('node', [path.join(__dirname, '..'), '--quiet', '--template', templateDir, '--dry-run=json']).catch(e => e);
+  expect(renderedError.message).toContain(`Template file '../../.bashrc' is outside of the project`);
+});
+
+test('should take the template variables from --answers', async ({ exec, dir, packageManager }) => {
+  test.skip(packageManager !== 'npm');
+
+  const templateDir = path.join(dir, 'template');
+  fs.mkdirSync(templateDir);
+  fs.writeFileSync(path.join(templateDir, 'create-playwright.template.json'), JSON.stringify({
+    prompts: [{ type: 'input', name: 'baseURL', message: 'Base URL?', initial: 'http://default' }],
+  }));
+  fs.writeFileSync(path.join(templateDir, 'example.spec.ts'), `// url={{baseURL}}\n`);
+  fs.writeFileSync(path.join(dir, 'answers.json'), JSON.stringify({ template: templateDir, templateVariables: { baseURL: 'https://acme.dev' } }));
+  const plan: DryRunPlan = JSON.parse((await exec('node', [path.join(__dirname, '..'), '--answers', 'answers.json', '--dry-run=json'])).stdout);
+  expect(planFile(plan, 'tests/example.spec.ts')).toBe('// url=https://acme.dev\n');
+});
+
+test('should generate JavaScript from the TypeScript templates', async ({ run, dir, packageManager }) => {
+  test.skip(packageManager !== 'npm');
+
+  const options: PromptOptions = { installGitHubActions: false, testDir: 'tests', language: 'JavaScript', installPlaywrightDependencies: false, installPlaywrightBrowsers: false };
+  const commonJS = JSON.parse((await run(['--dry-run=json'], options)).stdout);
+  expect(planFile(commonJS, 'playwright.config.js')).toContain(`// @ts-check\nconst { defineConfig, devices } = require('@playwright/test');`);
+  expect(planFile(commonJS, 'playwright.config.js')).toContain('module.exports = defineConfig({');
+  expect(planFile(commonJS, 'tests/example.spec.js')).toContain(`const { test, expect } = require('@playwright/test');`);
+
+  fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify({ name: 'test', type: 'module' }));
+  const esm = JSON.parse((await run(['--dry-run=json'], options)).stdout);
+  expect(planFile(esm, 'playwright.config.js')).toContain(`// @ts-check\nimport { defineConfig, devices } from '@playwright/test';`);
+  expect(planFile(esm, 'playwright.config.js')).toContain('export default defineConfig({');
+});
+
+test('should use .mjs / .cjs extensions when --module differs from the package type', async ({ run, dir, packageManager }) => {
+  test.skip(packageManager !== 'npm');
+
+  const options: PromptOptions = { installGitHubActions: false, testDir: 'tests', language: 'JavaScript', installPlaywrightDependencies: false, installPlaywrightBrowsers: false };
+  const esm = JSON.parse((await run(['--dry-run=json', '--module', 'esm'], options)).stdout);
+  expect(planFile(esm, 'playwright.config.mjs')).toContain(`import { defineConfig, devices } from '@playwright/test';`);
+  expect(planFile(esm, 'tests/example.spec.mjs')).toContain(`import { test, expect } from '@playwright/test';`);
+  expect(planFile(esm, 'playwright.config.js')).toBeUndefined();
+
+  fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify({ name: 'test', type: 'module' }));
+  const commonJS = JSON.parse((await run(['--dry-run=json', '--module', 'cjs'], { ...options, language: 'TypeScript' })).stdout);
+  expect(planFile(commonJS, 'playwright.config.cts')).toContain(`import { defineConfig, devices } from '@playwright/test';`);
+  expect(planFile(commonJS, 'tests/example.spec.cts')).toBeTruthy();
+});
+
+test('should start the detected dev server before the tests', async ({ exec, dir, packageManager }) => {
+  test.skip(packageManager !== 'npm');
+
+  const configOf = async (args: string[] = []) => {
+    const plan = JSON.parse((await exec('node', [path.join(__dirname, '..'), '--quiet', '--dry-run=json', ...args])).stdout);
+    return planFile(plan, 'playwright.config.ts');
+  };
+  expect(await configOf()).toContain(`    // baseURL: 'http://localhost:3000',\n`);
+  expect(await configOf()).toContain(`  // webServer: {\n  //   command: 'npm run start',\n  //   url: 'http://localhost:3000',\n`);
+
+  fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify({ name: 'app', scripts: { dev: 'vite --port 8080' }, devDependencies: { vite: '^6.0.0' } }));
+  const config = await configOf();
+  expect(config).toContain(`    baseURL: 'http://localhost:8080',\n`);
+  expect(config).toContain(`  webServer: {\n    command: 'npm run dev',\n    url: 'http://localhost:8080',\n    reuseExistingServer: !process.env.CI,\n  },\n`);
+  expect(await configOf(['--no-web-server'])).toContain(`    // baseURL: 'http://localhost:3000',\n`);
+});
+
+test('should add projects and a web server to an existing config', async ({ exec, dir, packageManager }) => {
+  test.skip(packageManager !== 'npm');
+
+  fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify({ name: 'test' }));
+  const config = `// @ts-check
+const { defineConfig } = require('@playwright/test');
+
+module.exports = defineConfig({
+  testDir: './e2e',
+  // Keep me
+  retries: 1,
+});
+`;
+  fs.writeFileSync(path.join(dir, 'playwright.config.js'), config);
+  const dryRun = await exec('node', [path.join(__dirname, '..'), 'add', 'browser', 'webkit', '--dry-run']);
+  expect(dryRun.stdout).toContain(`+    {`);
+  expect(fs.readFileSync(path.join(dir, 'playwright.config.js'), 'utf-8')).toBe(config);
+
+  const { stdout } = await exec('node', [path.join(__dirname, '..'), 'add', 'browser', 'webkit', 'firefox']);
+  expect(stdout).toContain(`added the 'webkit' project`);
+  await exec('node', [path.join(__dirname, '..'), 'add', 'web-server', 'npm run dev', '--url', 'http://localhost:5173']);
+  expect(fs.readFileSync(path.join(dir, 'playwright.config.js'), 'utf-8')).toBe(`// @ts-check
+const { defineConfig, devices } = require('@playwright/test');
+
+module.exports = defineConfig({
+  testDir: './e2e',
+  // Keep me
+  retries: 1,
+  projects: [
+    {
+      name: 'webkit',
+      use: { ...devices['Desktop Safari'] },
+    },
+    {
+      name: 'firefox',
+      use: { ...devices['Desktop Firefox'] },
+    },
+  ],
+  webServer: {
+    command: 'npm run dev',
+    url: 'http://localhost:5173',
+    reuseExistingServer: !process.env.CI,
+  },
+  use: {
+    baseURL: 'http://localhost:5173',
+  },
+});
+`);
+  const again = await exec('node', [path.join(__dirname, '..'), 'add', 'browser', 'webkit']);
+  expect(again.stdout).toContain(`kept the existing 'webkit' project`);
+});
+
+test('should add a project for a device with add device', async ({ exec, dir, packageManager }) => {
+  test.skip(packageManager !== 'npm');
+
+  fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify({ name: 'test' }));
+  const config = `import { defineConfig } from '@playwright/test';\n\nexport default defineConfig({\n  testDir: './e2e',\n});\n`;
+  fs.writeFileSync(path.join(dir, 'playwright.config.ts'), config);
+  const { stdout } = await exec('node', [path.join(__dirname, '..'), 'add', 'device', 'Pixel 5', '--dry-run']);
+  expect(stdout).toContain(`+import { defineConfig, devices } from '@playwright/test';`);
+  expect(stdout).toContain(`+      name: 'Pixel 5',\n+      use: { ...devices['Pixel 5'] },`);
+  expect(fs.readFileSync(path.join(dir, 'playwright.config.ts'), 'utf-8')).toBe(config);
+
+  await expect(exec('node', [path.join(__dirname, '..'), 'add', 'device', 'Pixel5', '--dry-run'])).rejects.toThrowError(`Unknown device 'Pixel5', did you mean 'Pixel 5'?`);
+});
+
+test('should keep component tests apart from the end-to-end tests with add ct', async ({ exec, dir, packageManager }) => {
+  test.skip(packageManager !== 'npm');
+
+  fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify({ name: 'test', dependencies: { react: '^18.0.0' } }));
+  fs.writeFileSync(path.join(dir, 'playwright.config.ts'), `export default { testDir: './e2e' };\n`);
+  const plan = JSON.parse((await exec('node', [path.join(__dirname, '..'), 'add', 'ct', '--dry-run=json'])).stdout);
+  expect(plan.files.map((file: { path: string }) => file.path)).toEqual(['playwright-ct.config.ts', 'playwright/index.html', 'playwright/index.tsx']);
+  const ctConfig = planFile(plan, 'playwright-ct.config.ts');
+  expect(ctConfig).toContain(`testDir: './src',`);
+  expect(ctConfig).toContain(`reporter: [['html', { outputFolder: 'playwright-ct-report' }]],`);
+  expect(plan.gitignore.content).toContain('/playwright-ct-report/');
+  expect(plan.commands).toContainEqual({ name: 'Installing Playwright Component Testing', command: 'npm install --save-dev @playwright/experimental-ct-react', phase: 'pre' });
+});
+
+test('should only add the workflow with add gha', async ({ exec, dir, packageManager }) => {
+  test.skip(packageManager !== 'npm');
+
+  fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify({ name: 'test' }));
+  fs.writeFileSync(path.join(dir, 'playwright.config.ts'), `export default { testDir: './e2e' };\n`);
+  const plan = JSON.parse((await exec('node', [path.join(__dirname, '..'), 'add', 'gha', '--dry-run=json'])).stdout);
+  expect(plan.files.map((file: { path: string }) => file.path)).toEqual(['.github/workflows/playwright.yml']);
+  expect(plan.commands).toEqual([]);
+  expect(plan.answers.language).toBe('TypeScript');
+  expect(plan.packageJSON).toBeUndefined();
+  expect(plan.gitignore).toBeUndefined();
+});
+
+test('should leave package.json and .gitignore alone with add gha', async ({ exec, dir, packageManager }) => {
+  test.skip(packageManager !== 'npm');
+
+  const packageJSON = `{ "name": "test", "scripts": { "test": "echo \\"Error: no test specified\\" && exit 1" } }`;
+  fs.writeFileSync(path.join(dir, 'package.json'), packageJSON);
+  fs.writeFileSync(path.join(dir, '.gitignore'), 'dist');
+  fs.writeFileSync(path.join(dir, 'playwright.config.ts'), `export default { testDir: './e2e' };\n`);
+  await exec('node', [path.join(__dirname, '..'), 'add', 'gha']);
+  expect(fs.existsSync(path.join(dir, '.github/workflows/playwright.yml'))).toBeTruthy();
+  expect(fs.readFileSync(path.join(dir, 'package.json'), 'utf8')).toBe(packageJSON);
+  expect(fs.readFileSync(path.join(dir, '.gitignore'), 'utf8')).toBe('dist');
+});
+
+for (const [ciProvider, file] of Object.entries({ gitlab: '.gitlab-ci.yml', azure: 'azure-pipelines.yml', circleci: '.circleci/config.yml', jenkins: 'Jenkinsfile', bitbucket: 'bitbucket-pipelines.yml' })) {
+  test(`should generate a ${ciProvider} pipeline`, async ({ run, dir, packageManager }) => {
+    test.skip(packageManager !== 'npm');
+
+    const { stdout } = await run(['--dry-run=json'], { ciProvider: ciProvider as PromptOptions['ciProvider'], installGitHubActions: false, testDir: 'tests', language: 'TypeScript', installPlaywrightDependencies: false, installPlaywrightBrowsers: false });
+    const plan = JSON.parse(stdout);
+    const paths = plan.files.map((file: { path: string }) => file.path);
+    expect(paths).toContain(file);
+    expect(paths).not.toContain('.github/workflows/playwright.yml');
+    const content = planFile(plan, file);
+    expect(content).toContain('npm ci');
+    expect(content).toContain('npx playwright install --with-deps');
+    expect(content).toContain('npx playwright test');
+    expect(content).toContain('playwright-report');
+    expect(content).not.toContain('{{');
+  });
+}
@@ -0,0 +1,113 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { expect, test } from './baseFixtures';
+import { addImportExtension, toJavaScript } from '../src/javascript';
+
+test.beforeEach(({ packageManager }) => {
+  test.skip(packageManager !== 'npm', 'does not depend on the package manager');
+});
+
+const source = `import { test as base, type Page } from '@playwright/test';
+import type { TestInfo } from '@playwright/test';
+import path from 'path';
+
+type Options = {
+  baseURL: string;
+};
+
+export class TodoPage {
+  readonly page: Page;
+
+  constructor(page: Page) {
+    this.page = page;
+  }
+
+  async goto(url: string): Promise<void> {
+    await this.page.goto(path.join(url, 'todo'));
+  }
+}
+
+export const test = base.extend<{ todoPage: TodoPage }>({
+  todoPage: async ({ page }, use) => {
+    await use(new TodoPage(page));
+  },
+});
+export { expect } from '@playwright/test';
+`;
+
+test('should strip types and keep ES modules', () => {
+  expect(toJavaScript(source, 'esm')).toBe(`// @ts-check
+import { test as base } from '@playwright/test';
+import path from 'path';
+
+export class TodoPage {
+  page;
+
+  constructor(page) {
+    this.page = page;
+  }
+
+  async goto(url) {
+    await this.page.goto(path.join(url, 'todo'));
+  }
+}
+
+export const test = base.extend({
+  todoPage: async ({ page }, use) => {
+    await use(new TodoPage(page));
+  },
+});
+export { expect } from '@playwright/test';
+`);
+});
+
+test('should convert to CommonJS', () => {
+  expect(toJavaScript(source, 'cjs')).toBe(`// @ts-check
+const { test: base } = require('@playwright/test');
+const path = require('path');
+
+class TodoPage {
+  page;
+
+  constructor(page) {
+    this.page = page;
+  }
+
+  async goto(url) {
+    await this.page.goto(path.join(url, 'todo'));
+  }
+}
+
+const test = base.extend({
+  todoPage: async ({ page }, use) => {
+    await use(new TodoPage(page));
+  },
+});
+const { expect } = require('@playwright/test');
+
+module.exports = { TodoPage, test, expect };
+`);
+  expect(toJavaScript(`import { defineConfig } from '@playwright/test';\n\nexport default defineConfig({});\n`, 'cjs')).toBe(`// @ts-check\nconst { defineConfig } = require('@playwright/test');\n\nmodule.exports = defineConfig({});\n`);
+});
+
+test('should keep JSX of .tsx sources', () => {
+  expect(toJavaScript(`type Props = { label: string };\n\nexport default ({ label }: Props) => <button>{label}</button>;\n`, 'esm', { jsx: true })).toBe(`// @ts-check\nexport default ({ label }) => <button>{label}</button>;\n`);
+});
+
+test('should add the extension to relative imports', () => {
+  expect(addImportExtension(`import { test } from './fixtures';\nimport { BasePage } from '../pages/base-page.js';\nimport { expect } from '@playwright/test';\n`, '.mjs')).toBe(`import { test } from './fixtures.mjs';\nimport { BasePage } from '../pages/base-page.js';\nimport { expect } from '@playwright/test';\n`);
+  expect(addImportExtension(`const { test } = require('./fixtures');\n`, '.cjs')).toBe(`const { test } = require('./fixtures.cjs');\n`);
+});
@@ -0,0 +1,75 @@
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { expect, test } from './baseFixtures';
+import { executeTemplate } from '../src/utils';
+
+test.beforeEach(({ packageManager }) => {
+  test.skip(packageManager !== 'npm', 'does not depend on the package manager');
+});
+
+test('should show, hide and comment out nested sections', () => {
+  const template = [
+    'a',
+    '  //--begin-outer',
+    '  b',
+    '  //--begin-inner',
+    '  c',
+    '  //--end-inner',
+    '  //--end-outer',
+    '//--begin-hidden',
+    '//--begin-outer',
+    'd',
+    '//--end-outer',
+    '//--end-hidden',
+  ].join('\n');
+  expect(executeTemplate(template, {}, new Map([['outer', 'show'], ['inner', 'hide'], ['hidden', 'hide']]))).toBe('a\n  b');
+  expect(executeTemplate(template, {}, new Map([['outer', 'comment'], ['inner', 'comment'], ['hidden', 'show']]))).toBe('a\n  // b\n  // c\n// d');
+});
+
+test('should support if/else and loops', () => {
+  const template = [
+    'projects: [',
+    '  //--each browser in browsers',
+    '  //--if browser.enabled',
+    `  { name: '{{browser.name}}' },`,
+    '  //--else',
+    `  // { name: '{{browser.name}}' },`,
+    '  //--end-if',
+    '  //--end-each',
+    '],',
+    '//--if !ci',
+    'no CI',
+    '//--end-if',
+  ].join('\n');
+  const browsers = [{ name: 'chromium', enabled: true }, { name: 'firefox', enabled: false }];
+  expect(executeTemplate(template, { browsers, ci: false }, new Map())).toBe(`projects: [\n  { name: 'chromium' },\n  // { name: 'firefox' },\n],\nno CI`);
+});
+
+test('should understand YAML and HTML comments', () => {
+  const yaml = ['steps:', '  #--begin-cache', '  - cache: {{cache}}', '  #--end-cache', '  - run: echo ${{ github.sha }}'].join('\n');
+  expect(executeTemplate(yaml, { cache: 'npm' }, new Map([['cache', 'comment']]))).toBe('steps:\n  # - cache: npm\n  - run: echo ${{ github.sha }}');
+  const html = ['<body>', '  <!--if title-->', '  <h1>{{ title }}</h1>', '  <!--end-if-->', '</body>'].join('\n');
+  expect(executeTemplate(html, { title: 'Hello' }, new Map())).toBe('<body>\n  <h1>Hello</h1>\n</body>');
+  expect(executeTemplate(html, { title: '' }, new Map())).toBe('<body>\n</body>');
+});
+
+test('should fail on undefined variables and unbalanced sections in strict mode', () => {
+  expect(executeTemplate('{{missing}}', {}, new Map())).toBe('{{missing}}');
+  expect(() => executeTemplate('a\n{{missing}}', {}, new Map(), { strict: true })).toThrow(`Template error on line 2: undefined variable 'missing'`);
+  expect(() => executeTemplate('//--begin-a\nb', {}, new Map([['a', 'show']]), { strict: true })).toThrow('Template error on line 1: section is never closed');
+  expect(() => executeTemplate('//--begin-a\n//--end-b', {}, new Map([['a', 'show']]), { strict: true })).toThrow(`'end-b' does not close 'begin-a' from line 1`);
+  expect(() => executeTemplate('//--begin-a\n//--end-a', {}, new Map(), { strict: true })).toThrow(`unknown section 'a'`);
+});
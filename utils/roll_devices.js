@@ -0,0 +1,37 @@
+#!/usr/bin/env node
+/**
+ * Copyright (c) Microsoft Corporation.
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const destPath = path.join(__dirname, '../assets/devices.json');
+
+let devices;
+try {
+  devices = require('@playwright/test').devices;
+} catch (e) {
+  console.error('Could not load @playwright/test:', e.message);
+  console.error('Make sure it is installed: npm install');
+  process.exit(1);
+}
+
+// Only what create-playwright needs to validate the devices and pick the browsers to install.
+const registry = Object.fromEntries(Object.entries(devices).map(([name, device]) => [name, { defaultBrowserType: device.defaultBrowserType }]));
+fs.writeFileSync(destPath, JSON.stringify(registry, null, 2) + '\n');
+
+console.log(`Wrote ${Object.keys(registry).length} devices of @playwright/test@${require('@playwright/test/package.json').version} to:`);
+console.log('  ' + destPath);